@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getPort, isPortId, Port } from "@/lib/ports";
+import { getServiceSupabase } from "@/lib/supabase-admin";
+import type { PushSubscriptionRow } from "@/lib/supabase";
+import { alertsBetween, computeAlerts, isAlertRule } from "@/lib/flow-alerts";
+import { alertDays, catchUpSince, isWebPushConfigured, sendWebPush } from "@/lib/push-server";
+
+// Sends the flow alerts that came due since each subscription was last checked.
+// Called every few minutes by an external scheduler (or Vercel Cron on Pro, which
+// allows sub-daily schedules) with Authorization: Bearer $CRON_SECRET.
+
+export const dynamic = "force-dynamic";
+export const maxDuration = 60;
+
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: "unauthorized" }, { status: 401 });
+  }
+  const admin = getServiceSupabase();
+  if (!admin || !isWebPushConfigured()) {
+    return NextResponse.json(
+      { error: "SUPABASE_SERVICE_ROLE_KEY, NEXT_PUBLIC_VAPID_PUBLIC_KEY and VAPID_PRIVATE_KEY are required" },
+      { status: 409 }
+    );
+  }
+
+  const { data, error } = await admin.from("push_subscriptions").select("*");
+  if (error) {
+    console.error("Push dispatch: loading subscriptions failed:", error);
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+  const subscriptions = (data || []) as PushSubscriptionRow[];
+
+  const now = new Date();
+  // Tide days are loaded once per port
+  const daysByPort = new Map<string, ReturnType<typeof alertDays>>();
+  const portFor = (id: string): Port | null => (isPortId(id) ? getPort(id) : null);
+
+  let sent = 0;
+  let removed = 0;
+  let failed = 0;
+
+  for (const row of subscriptions) {
+    const port = portFor(row.port_id);
+    if (!port) continue;
+    if (!daysByPort.has(port.id)) daysByPort.set(port.id, alertDays(port, now));
+    const days = await daysByPort.get(port.id)!;
+
+    const rules = Array.isArray(row.rules) ? row.rules.filter(isAlertRule) : [];
+    const due = alertsBetween(computeAlerts(days, rules, port.name), catchUpSince(row.last_checked_at, now), now);
+
+    let gone = false;
+    for (const alert of due) {
+      try {
+        if ((await sendWebPush(row, alert)) === "gone") {
+          gone = true;
+          break;
+        }
+        sent++;
+      } catch (e) {
+        failed++;
+        console.error("Push dispatch: send failed:", row.endpoint, e);
+      }
+    }
+
+    const { error: writeError } = gone
+      ? await admin.from("push_subscriptions").delete().eq("endpoint", row.endpoint)
+      : await admin.from("push_subscriptions").update({ last_checked_at: now.toISOString() }).eq("endpoint", row.endpoint);
+    if (writeError) console.error("Push dispatch: updating subscription failed:", row.endpoint, writeError);
+    if (gone) removed++;
+  }
+
+  return NextResponse.json({ checkedAt: now.toISOString(), subscriptions: subscriptions.length, sent, failed, removed });
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getPort, isPortId } from "@/lib/ports";
+import { alertsBetween, computeAlerts, isAlertRule } from "@/lib/flow-alerts";
+import { alertDays, catchUpSince } from "@/lib/push-server";
+import { clientKey } from "@/lib/rate-limit";
+import { requestLimiter } from "@/lib/tide-upstream";
+
+// Local stand-in for the push service (development without VAPID keys): the
+// open app posts its rules and the time of its last check, and gets back the
+// alerts the dispatch job would have pushed in between.
+
+export async function POST(request: NextRequest) {
+  if (requestLimiter.take(clientKey(request.headers)) > 0) {
+    return NextResponse.json({ error: "rate_limited" }, { status: 429 });
+  }
+
+  const body = (await request.json().catch(() => null)) as {
+    port?: unknown;
+    rules?: unknown;
+    since?: unknown;
+  } | null;
+  if (!body || typeof body.port !== "string" || !isPortId(body.port) || !Array.isArray(body.rules)) {
+    return NextResponse.json({ error: "port and rules are required" }, { status: 400 });
+  }
+
+  const port = getPort(body.port);
+  const rules = body.rules.filter(isAlertRule);
+  const now = new Date();
+  const since = catchUpSince(typeof body.since === "string" ? body.since : null, now);
+
+  const alerts = alertsBetween(computeAlerts(await alertDays(port, now), rules, port.name), since, now);
+  return NextResponse.json({ until: now.toISOString(), alerts });
+}
@@ -0,0 +1,194 @@
+import { NextRequest, NextResponse } from "next/server";
+import { DEFAULT_PORT_ID, getPort, isPortId } from "@/lib/ports";
+import { TIDE_API_VERSION, TideDay, TideError, TideErrorResponse } from "@/lib/tide-api";
+import { isTideError, loadDay, requestLimiter, upstreamGate } from "@/lib/tide-upstream";
+import { clientKey } from "@/lib/rate-limit";
+import { peakSpeedForRange, strengthForSpeed } from "@/lib/tide-utils";
+import { buildCalendar, IcsEvent } from "@/lib/ical";
+import { jstDateKey, jstInstant, jstTime, tideTimeline } from "@/lib/tide-timeline";
+
+// Subscribable iCalendar feed: high/low water, slack-water (転流) and peak-flow
+// windows, and optionally the day's 潮回り. The window is relative to today by
+// default, so a subscription keeps rolling forward as the calendar app refreshes.
+
+const DEFAULT_DAYS = 30;
+const MAX_DAYS = 92;
+const FEED_PARTS = ["tide", "slack", "peak", "tidename"] as const;
+type FeedPart = (typeof FEED_PARTS)[number];
+const DEFAULT_PARTS: FeedPart[] = ["tide", "slack", "peak"];
+
+// Flow is weak within about 30 minutes of high/low water
+const SLACK_HALF_WINDOW_MIN = 30;
+// Peak window: where the sinusoidal speed stays above 90% of the half cycle's maximum
+const PEAK_HALF_FRACTION = 0.5 - Math.asin(0.9) / Math.PI;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function errorResponse(status: number, error: TideError, headers?: HeadersInit) {
+  const body: TideErrorResponse = { version: TIDE_API_VERSION, error };
+  return NextResponse.json(body, { status, headers });
+}
+
+function todayJst(): string {
+  return new Date(Date.now() + 9 * 60 * 60 * 1000).toISOString().split("T")[0];
+}
+
+function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().split("T")[0];
+}
+
+function isValidDate(date: string): boolean {
+  if (!DATE_PATTERN.test(date)) return false;
+  const parsed = new Date(`${date}T00:00:00Z`);
+  return !Number.isNaN(parsed.getTime()) && parsed.toISOString().startsWith(date);
+}
+
+function toMinutes(time: string): number {
+  const [h, m] = time.split(":").map(Number);
+  return h * 60 + m;
+}
+
+function atMinute(ms: number): Date {
+  return new Date(Math.round(ms / 60000) * 60000);
+}
+
+function buildEvents(portId: string, portName: string, days: TideDay[], from: string, to: string, parts: Set<FeedPart>) {
+  const inRange = (date: string) => date >= from && date < to;
+  const events: IcsEvent[] = [];
+
+  // One continuous timeline so windows can span midnight
+  const timeline = tideTimeline(days);
+
+  for (const day of days) {
+    if (!inRange(day.date)) continue;
+    const note =
+      day.source === "harmonic" ? "\n推算値（tide736.net のデータを取得できなかったため調和定数で計算）" : "";
+
+    if (parts.has("tidename")) {
+      events.push({
+        uid: `${portId}-${day.date}-tidename@akashi-tide`,
+        summary: `${day.tideName} ${day.moon.phase.icon}`,
+        description: `${portName} 月齢${day.moon.age.toFixed(1)}（${day.moon.phase.name}）`,
+        categories: ["潮回り"],
+        start: day.date,
+      });
+    }
+
+    if (parts.has("tide")) {
+      for (const e of day.events) {
+        const label = e.type === "high" ? "満潮" : "干潮";
+        events.push({
+          uid: `${portId}-${day.date}-${e.type}-${e.time.replace(":", "")}@akashi-tide`,
+          summary: `${label} ${e.height}cm`,
+          description: `${portName} ${label} ${e.time} ${e.height}cm${note}`,
+          categories: [label],
+          start: jstInstant(day.date, toMinutes(e.time)),
+        });
+      }
+    }
+  }
+
+  timeline.forEach((event, i) => {
+    const direction = event.type === "high" ? "南流" : "北流";
+    const label = event.type === "high" ? "満潮" : "干潮";
+
+    if (parts.has("slack") && inRange(event.date)) {
+      const start = new Date(event.at.getTime() - SLACK_HALF_WINDOW_MIN * 60000);
+      const end = new Date(event.at.getTime() + SLACK_HALF_WINDOW_MIN * 60000);
+      events.push({
+        uid: `${portId}-${event.date}-slack-${event.time.replace(":", "")}@akashi-tide`,
+        summary: `転流 → ${direction}`,
+        description: `${portName} ${label}(${event.time})前後は流れが弱まり、その後${direction}に変わります（${jstTime(start)}〜${jstTime(end)}）`,
+        categories: ["転流"],
+        start,
+        end,
+      });
+    }
+
+    const next = timeline[i + 1];
+    if (parts.has("peak") && next) {
+      const span = next.at.getTime() - event.at.getTime();
+      const center = atMinute(event.at.getTime() + span / 2);
+      const centerDate = jstDateKey(center);
+      if (!inRange(centerDate)) return;
+      const speed = peakSpeedForRange(event.height - next.height);
+      const start = atMinute(center.getTime() - span * PEAK_HALF_FRACTION);
+      const end = atMinute(center.getTime() + span * PEAK_HALF_FRACTION);
+      events.push({
+        uid: `${portId}-${centerDate}-peak-${jstTime(center).replace(":", "")}@akashi-tide`,
+        summary: `最強 ${direction} ${speed.toFixed(1)}kt（${strengthForSpeed(speed)}）`,
+        description: `${portName} ${direction}の最強 ${jstTime(center)} 推定${speed.toFixed(1)}ノット（${jstTime(start)}〜${jstTime(end)}は最大の9割以上）`,
+        categories: ["最強"],
+        start,
+        end,
+      });
+    }
+  });
+
+  return events;
+}
+
+export async function GET(request: NextRequest) {
+  const client = clientKey(request.headers);
+  const retryAfter = requestLimiter.take(client);
+  if (retryAfter > 0) {
+    return errorResponse(
+      429,
+      { code: "rate_limited", message: `リクエストが多すぎます。${retryAfter}秒後に再試行してください` },
+      { "Retry-After": String(retryAfter) }
+    );
+  }
+
+  const { searchParams } = new URL(request.url);
+  const portParam = searchParams.get("port") ?? DEFAULT_PORT_ID;
+  const from = searchParams.get("from") ?? todayJst();
+  const daysParam = searchParams.get("days") ?? String(DEFAULT_DAYS);
+  const includeParam = searchParams.get("include");
+
+  if (!isPortId(portParam)) {
+    return errorResponse(400, { code: "unknown_port", message: `未対応の港です: ${portParam}` });
+  }
+  if (!isValidDate(from)) {
+    return errorResponse(400, { code: "invalid_parameter", message: "from は YYYY-MM-DD 形式の日付を指定してください" });
+  }
+  const days = Number(daysParam);
+  if (!Number.isInteger(days) || days < 1 || days > MAX_DAYS) {
+    return errorResponse(400, { code: "invalid_parameter", message: `days は 1〜${MAX_DAYS} の整数を指定してください` });
+  }
+  const requested = includeParam ? includeParam.split(",").map((p) => p.trim()) : DEFAULT_PARTS;
+  const unknown = requested.filter((p) => !(FEED_PARTS as readonly string[]).includes(p));
+  if (unknown.length > 0) {
+    return errorResponse(400, {
+      code: "invalid_parameter",
+      message: `include は ${FEED_PARTS.join(", ")} から選んでください`,
+      details: unknown,
+    });
+  }
+
+  const port = getPort(portParam);
+  const to = addDays(from, days);
+  // One day either side so windows crossing midnight at the range edges are complete
+  const dates = Array.from({ length: days + 2 }, (_, i) => addDays(from, i - 1));
+
+  const { gate } = upstreamGate(client);
+  const results = await Promise.all(dates.map((date) => loadDay(port, date, "auto", gate)));
+  // auto never fails, but keep the types honest
+  const tideDays = results.filter((r): r is TideDay => !isTideError(r));
+
+  const body = buildCalendar({
+    name: `潮汐 ${port.name}`,
+    description: `${port.name}（${port.area}）の満潮・干潮、転流と最強の時間帯`,
+    refreshHours: 12,
+    events: buildEvents(port.id, port.name, tideDays, from, to, new Set(requested as FeedPart[])),
+  });
+
+  return new NextResponse(body, {
+    headers: {
+      "Content-Type": "text/calendar; charset=utf-8",
+      "Content-Disposition": `inline; filename="tide-${port.id}.ics"`,
+      "Cache-Control": "public, max-age=3600",
+    },
+  });
+}
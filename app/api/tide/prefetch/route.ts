@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from "next/server";
+import { PORTS, PortId } from "@/lib/ports";
+import { TideErrorCode } from "@/lib/tide-api";
+import { getTideCache, isFresh } from "@/lib/tide-cache";
+import { isTideError, readCachedDay, refreshDay } from "@/lib/tide-upstream";
+
+// Fills the persistent tide cache for every port over the coming weeks so that
+// /api/tide keeps working from cache while tide736.net is down.
+// Called daily by Vercel Cron (vercel.json), which sends Authorization: Bearer $CRON_SECRET.
+
+const DEFAULT_DAYS = 21;
+const MAX_DAYS = 60;
+
+export const dynamic = "force-dynamic";
+export const maxDuration = 60;
+
+function todayJst(): Date {
+  const now = new Date(Date.now() + 9 * 60 * 60 * 1000);
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+}
+
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: "unauthorized" }, { status: 401 });
+  }
+  if (!getTideCache()) {
+    return NextResponse.json({ error: "tide cache is disabled (TIDE_CACHE=off)" }, { status: 409 });
+  }
+
+  const daysParam = Number(new URL(request.url).searchParams.get("days") ?? DEFAULT_DAYS);
+  const days = Number.isInteger(daysParam) ? Math.min(Math.max(daysParam, 1), MAX_DAYS) : DEFAULT_DAYS;
+
+  const start = todayJst();
+  const dates = Array.from({ length: days }, (_, i) =>
+    new Date(start.getTime() + i * 86400000).toISOString().split("T")[0]
+  );
+
+  let fetched = 0;
+  let cached = 0;
+  const failed: Array<{ port: PortId; date: string; code: TideErrorCode }> = [];
+
+  // refreshDay queues behind the shared upstream concurrency limit
+  await Promise.all(
+    PORTS.flatMap((port) =>
+      dates.map(async (date) => {
+        const entry = await readCachedDay(port, date);
+        if (entry && isFresh(entry, date)) {
+          cached++;
+          return;
+        }
+        const day = await refreshDay(port, date);
+        if (isTideError(day)) failed.push({ port: port.id, date, code: day.code });
+        else fetched++;
+      })
+    )
+  );
+
+  if (failed.length > 0) console.error("Tide prefetch failures:", failed);
+  return NextResponse.json({ from: dates[0], days, fetched, cached, failed });
+}
@@ -1,47 +1,123 @@
 import { NextRequest, NextResponse } from "next/server";
+import { DEFAULT_PORT_ID, getPort, isPortId } from "@/lib/ports";
+import {
+  TIDE_API_VERSION,
+  TIDE_RANGES,
+  TIDE_SOURCES,
+  TideDay,
+  TideError,
+  TideErrorResponse,
+  TideRange,
+  TideResponse,
+  TideSourceParam,
+} from "@/lib/tide-api";
+import { tidePort } from "@/lib/tide-day";
+import { isTideError, loadDay, requestLimiter, upstreamGate } from "@/lib/tide-upstream";
+import { clientKey } from "@/lib/rate-limit";
+
+function isRange(value: string): value is TideRange {
+  return (TIDE_RANGES as readonly string[]).includes(value);
+}
+
+function isSource(value: string): value is TideSourceParam {
+  return (TIDE_SOURCES as readonly string[]).includes(value);
+}
+
+function errorResponse(status: number, error: TideError, headers?: HeadersInit) {
+  const body: TideErrorResponse = { version: TIDE_API_VERSION, error };
+  return NextResponse.json(body, { status, headers });
+}
+
+function toDateKey(date: Date): string {
+  return date.toISOString().split("T")[0];
+}
 
 export async function GET(request: NextRequest) {
+  const client = clientKey(request.headers);
+  const retryAfter = requestLimiter.take(client);
+  if (retryAfter > 0) {
+    return errorResponse(
+      429,
+      { code: "rate_limited", message: `リクエストが多すぎます。${retryAfter}秒後に再試行してください` },
+      { "Retry-After": String(retryAfter) }
+    );
+  }
+
   const { searchParams } = new URL(request.url);
   const yr = searchParams.get("yr");
   const mn = searchParams.get("mn");
   const dy = searchParams.get("dy");
+  const source = searchParams.get("source") ?? "auto";
+  const portParam = searchParams.get("port") ?? DEFAULT_PORT_ID;
+  const rg = searchParams.get("rg") ?? "day";
 
   if (!yr || !mn || !dy) {
-    return NextResponse.json(
-      { error: "yr, mn, dy パラメータが必要です" },
-      { status: 400 }
-    );
+    return errorResponse(400, {
+      code: "missing_parameter",
+      message: "yr, mn, dy パラメータが必要です",
+      details: ["yr", "mn", "dy"].filter((key) => !searchParams.get(key)),
+    });
   }
 
-  const params = new URLSearchParams({
-    pc: "28",
-    hc: "2030",
-    yr,
-    mn,
-    dy,
-    rg: "day",
-  });
+  const start = new Date(Date.UTC(Number(yr), Number(mn) - 1, Number(dy)));
+  if (
+    ![yr, mn, dy].every((v) => /^\d+$/.test(v)) ||
+    start.getUTCFullYear() !== Number(yr) ||
+    start.getUTCMonth() !== Number(mn) - 1 ||
+    start.getUTCDate() !== Number(dy)
+  ) {
+    return errorResponse(400, { code: "invalid_parameter", message: "yr, mn, dy が有効な日付ではありません" });
+  }
 
-  try {
-    const res = await fetch(
-      `https://api.tide736.net/get_tide.php?${params.toString()}`,
-      { next: { revalidate: 3600 } }
-    );
+  if (!isPortId(portParam)) {
+    return errorResponse(400, { code: "unknown_port", message: `未対応の港です: ${portParam}` });
+  }
+
+  if (!isRange(rg)) {
+    return errorResponse(400, {
+      code: "invalid_parameter",
+      message: "rg は day, week, month のいずれかを指定してください",
+    });
+  }
+
+  if (!isSource(source)) {
+    return errorResponse(400, {
+      code: "invalid_parameter",
+      message: "source は auto, tide736, local のいずれかを指定してください",
+    });
+  }
+
+  const port = getPort(portParam);
 
-    if (!res.ok) {
-      return NextResponse.json(
-        { error: "潮汐データの取得に失敗しました" },
-        { status: res.status }
-      );
+  // day: the given date, week: 7 days from it, month: the whole calendar month
+  const dates: Date[] = [];
+  if (rg === "day") {
+    dates.push(start);
+  } else if (rg === "week") {
+    for (let i = 0; i < 7; i++) {
+      dates.push(new Date(start.getTime() + i * 86400000));
+    }
+  } else {
+    const daysInMonth = new Date(Date.UTC(Number(yr), Number(mn), 0)).getUTCDate();
+    for (let d = 1; d <= daysInMonth; d++) {
+      dates.push(new Date(Date.UTC(Number(yr), Number(mn) - 1, d)));
     }
+  }
 
-    const data = await res.json();
-    return NextResponse.json(data);
-  } catch (error) {
-    console.error("Tide API error:", error);
-    return NextResponse.json(
-      { error: "潮汐APIへの接続に失敗しました" },
-      { status: 500 }
-    );
+  const { gate, retryAfter: upstreamRetryAfter } = upstreamGate(client);
+  const results = await Promise.all(dates.map((date) => loadDay(port, toDateKey(date), source, gate)));
+  const failed = results.find(isTideError);
+  if (failed) {
+    return failed.code === "rate_limited"
+      ? errorResponse(429, failed, { "Retry-After": String(upstreamRetryAfter()) })
+      : errorResponse(502, failed);
   }
+
+  const body: TideResponse = {
+    version: TIDE_API_VERSION,
+    range: rg,
+    port: tidePort(port),
+    days: results as TideDay[],
+  };
+  return NextResponse.json(body);
 }
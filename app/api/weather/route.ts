@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from "next/server";
+import { DEFAULT_PORT_ID, getPort, isPortId } from "@/lib/ports";
+import { WEATHER_API_VERSION, WeatherError, WeatherErrorResponse, WeatherResponse } from "@/lib/weather";
+import { getWeatherProvider } from "@/lib/weather-provider";
+import { requestLimiter } from "@/lib/tide-upstream";
+import { clientKey } from "@/lib/rate-limit";
+
+// Hourly wind for a port and date from the configured weather provider
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function errorResponse(status: number, error: WeatherError, headers?: HeadersInit) {
+  const body: WeatherErrorResponse = { version: WEATHER_API_VERSION, error };
+  return NextResponse.json(body, { status, headers });
+}
+
+function isValidDate(date: string): boolean {
+  if (!DATE_PATTERN.test(date)) return false;
+  const parsed = new Date(`${date}T00:00:00Z`);
+  return !Number.isNaN(parsed.getTime()) && parsed.toISOString().startsWith(date);
+}
+
+export async function GET(request: NextRequest) {
+  const retryAfter = requestLimiter.take(clientKey(request.headers));
+  if (retryAfter > 0) {
+    return errorResponse(
+      429,
+      { code: "rate_limited", message: `リクエストが多すぎます。${retryAfter}秒後に再試行してください` },
+      { "Retry-After": String(retryAfter) }
+    );
+  }
+
+  const { searchParams } = new URL(request.url);
+  const portParam = searchParams.get("port") ?? DEFAULT_PORT_ID;
+  const date = searchParams.get("date");
+
+  if (!date) {
+    return errorResponse(400, { code: "missing_parameter", message: "date パラメータが必要です" });
+  }
+  if (!isValidDate(date)) {
+    return errorResponse(400, { code: "invalid_parameter", message: "date は YYYY-MM-DD 形式の有効な日付を指定してください" });
+  }
+  if (!isPortId(portParam)) {
+    return errorResponse(400, { code: "unknown_port", message: `未対応の港です: ${portParam}` });
+  }
+
+  const provider = getWeatherProvider();
+  if (!provider) {
+    return errorResponse(503, { code: "not_configured", message: "気象データの取得先が設定されていません" });
+  }
+
+  let hourly;
+  try {
+    hourly = await provider.hourlyWind(getPort(portParam), date);
+  } catch (error) {
+    console.error("Weather provider error:", error);
+    return errorResponse(502, { code: "provider_error", message: "気象データの取得に失敗しました" });
+  }
+  if (!hourly) {
+    return errorResponse(404, { code: "not_found", message: "この日の気象データはありません" });
+  }
+
+  const body: WeatherResponse = { version: WEATHER_API_VERSION, port: portParam, date, provider: provider.name, hourly };
+  return NextResponse.json(body, { headers: { "Cache-Control": "public, max-age=600" } });
+}
@@ -4,11 +4,14 @@ import "./globals.css";
 export const metadata: Metadata = {
   title: "明石潮流ナビ",
   description: "明石海峡の潮汐・潮流情報と釣果記録アプリ",
+  icons: { icon: "/icon.svg", apple: "/icon.svg" },
+  appleWebApp: { capable: true, title: "潮流ナビ", statusBarStyle: "black-translucent" },
 };
 
 export const viewport: Viewport = {
   width: "device-width",
   initialScale: 1,
+  themeColor: "#0f172a",
 };
 
 export default function RootLayout({
@@ -0,0 +1,20 @@
+import type { MetadataRoute } from "next";
+
+// Web app manifest, served at /manifest.webmanifest
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    name: "明石潮流ナビ",
+    short_name: "潮流ナビ",
+    description: "明石海峡の潮汐・潮流情報と釣果記録アプリ",
+    lang: "ja",
+    start_url: "/",
+    scope: "/",
+    display: "standalone",
+    background_color: "#0f172a",
+    theme_color: "#0f172a",
+    icons: [
+      { src: "/icon.svg", sizes: "any", type: "image/svg+xml", purpose: "any" },
+      { src: "/icon.svg", sizes: "any", type: "image/svg+xml", purpose: "maskable" },
+    ],
+  };
+}
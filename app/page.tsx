@@ -1,8 +1,38 @@
 "use client";
 
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, useMemo } from "react";
 import dynamic from "next/dynamic";
-import { parseTideEvents, estimateCurrentFlow, TideEvent, CurrentFlow } from "@/lib/tide-utils";
+import { estimateCurrentFlow, listFlowTurns, CurrentFlow } from "@/lib/tide-utils";
+import { fetchTide as requestTide, TideApiError, TideDay } from "@/lib/tide-api";
+import { harmonicTideDay } from "@/lib/tide-day";
+import {
+  isOfflineStoreAvailable,
+  lastOfflinePrefetch,
+  loadOfflineDay,
+  OfflinePrefetch,
+  prefetchOfflineDays,
+  saveOfflineDays,
+} from "@/lib/tide-offline";
+import TideCalendar from "@/components/TideCalendar";
+import FishingRecords from "@/components/FishingRecords";
+import CatchAnalytics from "@/components/CatchAnalytics";
+import CatchMapPanel from "@/components/CatchMapPanel";
+import SpotFlowPanel from "@/components/SpotFlowPanel";
+import FlowAlerts from "@/components/FlowAlerts";
+import OfflineStatus, { OfflineData } from "@/components/OfflineStatus";
+import MazumePanel from "@/components/MazumePanel";
+import BestTimePanel from "@/components/BestTimePanel";
+import TideChart from "@/components/TideChart";
+import WindTidePanel from "@/components/WindTidePanel";
+import FishingSpots from "@/components/FishingSpots";
+import type { SpotMarker } from "@/lib/fishing-spots";
+import type { MapRecord } from "@/lib/fishing-records";
+import { moonInfoForDate } from "@/lib/moon";
+import { sunTimesForDate } from "@/lib/sun";
+import { MazumeWindow, mazumeWindows } from "@/lib/mazume";
+import { useLocalPush } from "@/lib/push";
+import { useServiceWorker } from "@/lib/service-worker";
+import { PORTS, DEFAULT_PORT_ID, getPort, isPortId, PortId } from "@/lib/ports";
 
 const AkashiStraitMap = dynamic(() => import("@/components/AkashiStraitMap"), {
   ssr: false,
@@ -13,6 +43,10 @@ const AkashiStraitMap = dynamic(() => import("@/components/AkashiStraitMap"), {
   ),
 });
 
+const PORT_STORAGE_KEY = "akashi-tide:port";
+
+type View = "flow" | "calendar" | "records" | "spots" | "analytics";
+
 function formatDate(date: Date) {
   return {
     yr: String(date.getFullYear()),
@@ -21,10 +55,43 @@ function formatDate(date: Date) {
   };
 }
 
+function minutesSinceMidnight(date: Date) {
+  return date.getHours() * 60 + date.getMinutes();
+}
+
+function formatMinutes(minutes: number) {
+  return `${String(Math.floor(minutes / 60)).padStart(2, "0")}:${String(minutes % 60).padStart(2, "0")}`;
+}
+
 function dateToInputValue(date: Date) {
   return date.toISOString().split("T")[0];
 }
 
+function toDateKey(date: Date) {
+  const { yr, mn, dy } = formatDate(date);
+  return `${yr}-${mn}-${dy}`;
+}
+
+// Sampling step of the 24h flow strip on the timeline
+const STRIP_STEP_MIN = 15;
+
+// Horizontal position of a time span on a 24h axis
+function spanStyle(start: number, end: number) {
+  return { left: `${(start / 1440) * 100}%`, width: `${((end - start) / 1440) * 100}%` };
+}
+
+function stripCellClass(flow: CurrentFlow) {
+  if (flow.direction === "転流") return "bg-transparent";
+  const south = flow.direction === "南流（下げ潮）";
+  if (flow.strength === "強") return south ? "bg-orange-500/70" : "bg-blue-500/70";
+  if (flow.strength === "中") return south ? "bg-orange-500/40" : "bg-blue-500/40";
+  return south ? "bg-orange-500/15" : "bg-blue-500/15";
+}
+
+function mazumeBandClass(w: MazumeWindow) {
+  return w.runs.length > 0 ? "border-amber-300 bg-amber-300/25" : "border-amber-200/40 bg-amber-200/10";
+}
+
 function flowToMapProps(flow: CurrentFlow) {
   const direction = flow.direction === "南流（下げ潮）"
     ? "south" as const
@@ -36,73 +103,198 @@ function flowToMapProps(flow: CurrentFlow) {
     : flow.strength === "中"
     ? "medium" as const
     : "weak" as const;
-  return { direction, strength, directionLabel: flow.direction, strengthLabel: flow.strength };
+  return {
+    direction,
+    strength,
+    speedKnots: flow.speedKnots,
+    directionLabel: flow.direction,
+    strengthLabel: flow.strength,
+  };
 }
 
 export default function Home() {
   const [selectedDate, setSelectedDate] = useState(new Date());
-  const [tideEvents, setTideEvents] = useState<TideEvent[]>([]);
-  const [currentFlow, setCurrentFlow] = useState<CurrentFlow | null>(null);
-  const [tideData, setTideData] = useState<Record<string, unknown> | null>(null);
+  const [portId, setPortId] = useState<PortId>(DEFAULT_PORT_ID);
+  const [portRestored, setPortRestored] = useState(false);
+  const [tideDay, setTideDay] = useState<TideDay | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [showDetail, setShowDetail] = useState(false);
+  const [view, setView] = useState<View>("flow");
+  const [nowMinutes, setNowMinutes] = useState(() => minutesSinceMidnight(new Date()));
+  // Time picked with the scrubber; null follows the clock (today) or 12:00
+  const [scrubMinutes, setScrubMinutes] = useState<number | null>(null);
+  const [playing, setPlaying] = useState(false);
+  // Geotagged catches currently plotted on the map
+  const [catchMarkers, setCatchMarkers] = useState<MapRecord[]>([]);
+  const [spotMarkers, setSpotMarkers] = useState<SpotMarker[]>([]);
+
+  const [online, setOnline] = useState(true);
+  // Bumped when the connection comes back, to reload the shown day
+  const [reconnects, setReconnects] = useState(0);
+  // Set while the shown day did not come from the network
+  const [offlineData, setOfflineData] = useState<OfflineData | null>(null);
+  const [offlinePrefetch, setOfflinePrefetch] = useState<OfflinePrefetch | null>(null);
 
-  const fetchTide = useCallback(async (date: Date) => {
+  useServiceWorker();
+  useLocalPush();
+
+  const fetchTide = useCallback(async (date: Date, port: PortId) => {
     setLoading(true);
     setError(null);
-    const { yr, mn, dy } = formatDate(date);
+    const dateKey = toDateKey(date);
     try {
-      const res = await fetch(`/api/tide?yr=${yr}&mn=${mn}&dy=${dy}`);
-      if (!res.ok) throw new Error("取得失敗");
-      const data = await res.json();
-      setTideData(data);
-      const events = parseTideEvents(data);
-      setTideEvents(events);
-      const now = new Date();
-      const hour = date.toDateString() === now.toDateString() ? now.getHours() : 12;
-      setCurrentFlow(estimateCurrentFlow(events, hour));
-    } catch {
-      setError("潮汐データの取得に失敗しました。");
-      setTideEvents([]);
-      setCurrentFlow(null);
+      const { days } = await requestTide({ port, date: dateKey });
+      setTideDay(days[0]);
+      setOfflineData(null);
+      if (isOfflineStoreAvailable()) {
+        saveOfflineDays(port, days).catch((e) => console.error("Saving tide day failed:", e));
+      }
+    } catch (e) {
+      console.error("Tide API error:", e);
+      if (e instanceof TideApiError && e.code === "network_error") {
+        // No connection: the day stored on the device, else the local prediction
+        const stored = isOfflineStoreAvailable() ? await loadOfflineDay(port, dateKey).catch(() => null) : null;
+        setTideDay(
+          stored?.day ??
+            harmonicTideDay(getPort(port), dateKey, {
+              code: "upstream_unavailable",
+              message: "オフラインのため推算値を表示しています",
+            })
+        );
+        setOfflineData({ savedAt: stored?.savedAt ?? null });
+      } else {
+        setError("潮汐データの取得に失敗しました。");
+        setTideDay(null);
+        setOfflineData(null);
+      }
     } finally {
       setLoading(false);
     }
   }, []);
 
   useEffect(() => {
-    fetchTide(selectedDate);
-  }, [selectedDate, fetchTide]);
+    setOnline(navigator.onLine);
+    const handleOnline = () => {
+      setOnline(true);
+      setReconnects((n) => n + 1);
+    };
+    const handleOffline = () => setOnline(false);
+    window.addEventListener("online", handleOnline);
+    window.addEventListener("offline", handleOffline);
+    return () => {
+      window.removeEventListener("online", handleOnline);
+      window.removeEventListener("offline", handleOffline);
+    };
+  }, []);
+
+  // Restore the last selected port before the first fetch
+  useEffect(() => {
+    const saved = localStorage.getItem(PORT_STORAGE_KEY);
+    if (isPortId(saved)) setPortId(saved);
+    setPortRestored(true);
+  }, []);
+
+  useEffect(() => {
+    if (!portRestored) return;
+    fetchTide(selectedDate, portId);
+  }, [selectedDate, portId, portRestored, reconnects, fetchTide]);
 
+  // Keep the coming days of the selected port on the device
   useEffect(() => {
-    if (selectedDate.toDateString() !== new Date().toDateString()) return;
+    if (!portRestored || !isOfflineStoreAvailable()) return;
+    setOfflinePrefetch(lastOfflinePrefetch(portId));
+    if (!online) return;
+    prefetchOfflineDays(portId, toDateKey(new Date()))
+      .then(setOfflinePrefetch)
+      .catch((e) => console.error("Offline prefetch failed:", e));
+  }, [portId, portRestored, online]);
+
+  useEffect(() => {
+    setScrubMinutes(null);
+    setPlaying(false);
+  }, [selectedDate]);
+
+  const isToday = selectedDate.toDateString() === new Date().toDateString();
+
+  useEffect(() => {
+    if (!isToday) return;
     const interval = setInterval(() => {
-      if (tideEvents.length > 0) {
-        setCurrentFlow(estimateCurrentFlow(tideEvents, new Date().getHours()));
-      }
+      setNowMinutes(minutesSinceMidnight(new Date()));
     }, 60000);
     return () => clearInterval(interval);
-  }, [selectedDate, tideEvents]);
+  }, [isToday]);
+
+  // Playback: advance 10 minutes per tick and stop at the end of the day
+  useEffect(() => {
+    if (!playing) return;
+    const interval = setInterval(() => {
+      setScrubMinutes((m) => Math.min((m ?? 0) + 10, 1435));
+    }, 150);
+    return () => clearInterval(interval);
+  }, [playing]);
+
+  useEffect(() => {
+    if (playing && scrubMinutes !== null && scrubMinutes >= 1435) setPlaying(false);
+  }, [playing, scrubMinutes]);
+
+  const flowMinutes = scrubMinutes ?? (isToday ? nowMinutes : 720);
+
+  const currentFlow: CurrentFlow | null = useMemo(
+    () => (tideDay ? estimateCurrentFlow(tideDay.events, flowMinutes) : null),
+    [tideDay, flowMinutes]
+  );
+
+  const togglePlay = () => {
+    if (!playing && (scrubMinutes === null || scrubMinutes >= 1435)) {
+      setScrubMinutes(0);
+    }
+    setPlaying(!playing);
+  };
 
   const handleDateChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const d = new Date(e.target.value + "T00:00:00");
     if (!isNaN(d.getTime())) setSelectedDate(d);
   };
 
+  const handlePortChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const value = e.target.value;
+    if (!isPortId(value)) return;
+    setPortId(value);
+    localStorage.setItem(PORT_STORAGE_KEY, value);
+  };
+
+  const handleCalendarSelect = (date: Date) => {
+    setSelectedDate(date);
+    setView("flow");
+  };
+
   const moveDate = (offset: number) => {
     const d = new Date(selectedDate);
     d.setDate(d.getDate() + offset);
     setSelectedDate(d);
   };
 
-  const hourlyData = tideData && (tideData as Record<string, unknown>).hourly
-    ? (tideData as { hourly: Array<{ hour: string; cm: string }> }).hourly
-    : null;
+  const tideEvents = useMemo(() => tideDay?.events ?? [], [tideDay]);
+
+  const port = getPort(portId);
+  const moon = useMemo(() => moonInfoForDate(toDateKey(selectedDate)), [selectedDate]);
+  const flowTurns = useMemo(() => listFlowTurns(tideEvents), [tideEvents]);
+  const sunTimes = useMemo(
+    () => sunTimesForDate(toDateKey(selectedDate), port.lat, port.lng),
+    [selectedDate, port]
+  );
+  const mazume = useMemo(() => mazumeWindows(sunTimes, tideEvents), [sunTimes, tideEvents]);
+  const flowStrip = useMemo(
+    () =>
+      Array.from({ length: 1440 / STRIP_STEP_MIN }, (_, i) =>
+        estimateCurrentFlow(tideEvents, i * STRIP_STEP_MIN + STRIP_STEP_MIN / 2)
+      ),
+    [tideEvents]
+  );
 
   const mapProps = currentFlow
     ? flowToMapProps(currentFlow)
-    : { direction: "slack" as const, strength: "weak" as const, directionLabel: "転流", strengthLabel: "弱" };
+    : { direction: "slack" as const, strength: "weak" as const, speedKnots: 0, directionLabel: "転流", strengthLabel: "弱" };
 
   return (
     <main className="min-h-screen bg-slate-900">
@@ -112,9 +304,21 @@ export default function Home() {
           <h1 className="text-lg sm:text-xl font-bold text-white tracking-tight">
             明石潮流ナビ
           </h1>
-          <p className="text-[10px] sm:text-xs text-white/50">明石海峡リアルタイム潮流</p>
+          <p className="text-[10px] sm:text-xs text-white/50">
+            <span className="text-white/80 font-semibold">{moon.tideName}</span>
+            {" "}{moon.phase.icon} 月齢{moon.age.toFixed(1)}
+          </p>
         </div>
         <div className="flex items-center gap-1 sm:gap-2">
+          <select
+            value={portId}
+            onChange={handlePortChange}
+            className="bg-white/10 border border-white/20 rounded-md px-2 py-1.5 text-xs sm:text-sm text-white focus:ring-2 focus:ring-blue-500 outline-none [color-scheme:dark]"
+          >
+            {PORTS.map((p) => (
+              <option key={p.id} value={p.id}>{p.name}</option>
+            ))}
+          </select>
           <button
             onClick={() => moveDate(-1)}
             className="px-2 py-1.5 rounded-md bg-white/10 hover:bg-white/20 text-white text-xs sm:text-sm transition-colors"
@@ -136,156 +340,284 @@ export default function Home() {
         </div>
       </header>
 
-      {/* Map Section */}
-      <div className="relative">
-        {loading ? (
-          <div className="flex items-center justify-center h-[60vh] bg-slate-900">
-            <div>
-              <div className="w-10 h-10 border-4 border-blue-400 border-t-transparent rounded-full animate-spin mx-auto" />
-              <p className="text-sm text-white/50 mt-4">潮汐データ取得中...</p>
-            </div>
-          </div>
-        ) : error ? (
-          <div className="flex items-center justify-center h-[60vh] bg-slate-900">
-            <div className="text-center">
-              <p className="text-sm text-red-400">{error}</p>
-              <button
-                onClick={() => fetchTide(selectedDate)}
-                className="mt-3 text-sm text-blue-400 underline"
-              >
-                再試行
-              </button>
-            </div>
-          </div>
-        ) : (
-          <AkashiStraitMap {...mapProps} />
-        )}
-      </div>
-
-      {/* Info panels below map */}
-      {!loading && !error && (
-        <div className="px-4 pb-6 pt-4 space-y-4 max-w-2xl mx-auto">
-          {/* Current flow description */}
-          {currentFlow && (
-            <div className="bg-white/5 backdrop-blur rounded-xl border border-white/10 p-4">
-              <p className="text-xs text-white/50 mb-1">
-                {selectedDate.toDateString() === new Date().toDateString()
-                  ? "現在の推定潮流"
-                  : "12時頃の推定潮流"}
-              </p>
-              <p className="text-sm text-white/70">{currentFlow.description}</p>
-            </div>
-          )}
+      <OfflineStatus online={online} offlineData={offlineData} prefetch={offlinePrefetch} />
+
+      {/* View tabs */}
+      <nav className="flex border-b border-white/10 bg-slate-900">
+        {([
+          ["flow", "潮流"],
+          ["calendar", "潮回りカレンダー"],
+          ["records", "釣果記録"],
+          ["spots", "ポイント"],
+          ["analytics", "分析"],
+        ] as const).map(([key, label]) => (
+          <button
+            key={key}
+            onClick={() => setView(key)}
+            className={`flex-1 py-2 text-xs sm:text-sm transition-colors ${
+              view === key
+                ? "text-white border-b-2 border-blue-400"
+                : "text-white/50 hover:text-white/80"
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </nav>
 
-          {/* Tide events - compact */}
-          {tideEvents.length > 0 && (
-            <div className="bg-white/5 backdrop-blur rounded-xl border border-white/10 p-4">
-              <h2 className="text-sm font-semibold text-white/80 mb-3">満潮・干潮</h2>
-              <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
-                {tideEvents.map((event, i) => (
-                  <div
-                    key={i}
-                    className={`rounded-lg p-2.5 text-center ${
-                      event.type === "high"
-                        ? "bg-blue-500/15 border border-blue-500/30"
-                        : "bg-orange-500/15 border border-orange-500/30"
-                    }`}
+      {view === "analytics" ? (
+        <div className="px-4 pb-6 pt-4 max-w-3xl mx-auto">
+          <CatchAnalytics />
+        </div>
+      ) : view === "spots" ? (
+        <div className="px-4 pb-6 pt-4 max-w-2xl mx-auto">
+          <FishingSpots />
+        </div>
+      ) : view === "records" ? (
+        <div className="px-4 pb-6 pt-4 max-w-2xl mx-auto">
+          <FishingRecords portId={portId} />
+        </div>
+      ) : view === "calendar" ? (
+        <TideCalendar
+          portId={portId}
+          initialDate={selectedDate}
+          onSelectDate={handleCalendarSelect}
+        />
+      ) : (
+        <>
+          {/* Map Section */}
+          <div className="relative">
+            {loading ? (
+              <div className="flex items-center justify-center h-[60vh] bg-slate-900">
+                <div>
+                  <div className="w-10 h-10 border-4 border-blue-400 border-t-transparent rounded-full animate-spin mx-auto" />
+                  <p className="text-sm text-white/50 mt-4">潮汐データ取得中...</p>
+                </div>
+              </div>
+            ) : error ? (
+              <div className="flex items-center justify-center h-[60vh] bg-slate-900">
+                <div className="text-center">
+                  <p className="text-sm text-red-400">{error}</p>
+                  <button
+                    onClick={() => fetchTide(selectedDate, portId)}
+                    className="mt-3 text-sm text-blue-400 underline"
                   >
-                    <div className={`text-[10px] font-semibold mb-0.5 ${
-                      event.type === "high" ? "text-blue-400" : "text-orange-400"
-                    }`}>
-                      {event.type === "high" ? "満潮" : "干潮"}
-                    </div>
-                    <div className="text-lg font-bold text-white">{event.time}</div>
-                    <div className="text-xs text-white/60">{event.height}cm</div>
-                  </div>
-                ))}
+                    再試行
+                  </button>
+                </div>
               </div>
-            </div>
-          )}
+            ) : (
+              <AkashiStraitMap {...mapProps} port={port} catches={catchMarkers} spots={spotMarkers} />
+            )}
+          </div>
 
-          {/* Tide Flow Timeline */}
-          {tideEvents.length > 1 && (
-            <div className="bg-white/5 backdrop-blur rounded-xl border border-white/10 p-4">
-              <h2 className="text-sm font-semibold text-white/80 mb-3">潮流タイムライン</h2>
-              <div className="space-y-1.5">
-                {tideEvents.map((event, i) => {
-                  const next = tideEvents[i + 1];
-                  if (!next) return null;
-                  const isSouth = event.type === "high";
-                  return (
-                    <div
-                      key={i}
-                      className={`flex items-center gap-3 rounded-lg px-3 py-2 text-sm ${
-                        isSouth ? "bg-orange-500/10" : "bg-blue-500/10"
-                      }`}
-                    >
-                      <span className="text-white/60 font-mono text-xs whitespace-nowrap">
-                        {event.time} → {next.time}
-                      </span>
-                      <span className={`font-semibold text-xs ${
-                        isSouth ? "text-orange-400" : "text-blue-400"
-                      }`}>
-                        {isSouth ? "↓ 南流（下げ潮）" : "↑ 北流（上げ潮）"}
-                      </span>
-                    </div>
-                  );
-                })}
+          {/* Info panels below map */}
+          {!loading && !error && (
+            <div className="px-4 pb-6 pt-4 space-y-4 max-w-2xl mx-auto">
+              {/* Time scrubber */}
+              <div className="bg-white/5 backdrop-blur rounded-xl border border-white/10 p-4">
+                <div className="flex items-center gap-3">
+                  <button
+                    onClick={togglePlay}
+                    aria-label={playing ? "一時停止" : "再生"}
+                    className="w-8 h-8 shrink-0 rounded-full bg-blue-500 hover:bg-blue-400 text-white text-xs transition-colors"
+                  >
+                    {playing ? "❚❚" : "▶"}
+                  </button>
+                  <input
+                    type="range"
+                    min={0}
+                    max={1435}
+                    step={5}
+                    value={flowMinutes}
+                    onChange={(e) => {
+                      setPlaying(false);
+                      setScrubMinutes(Number(e.target.value));
+                    }}
+                    className="flex-1 accent-blue-400"
+                  />
+                  <span className="text-sm font-mono text-white w-12 text-right">
+                    {formatMinutes(flowMinutes)}
+                  </span>
+                </div>
+                {scrubMinutes !== null && isToday && (
+                  <button
+                    onClick={() => {
+                      setPlaying(false);
+                      setScrubMinutes(null);
+                    }}
+                    className="mt-2 text-xs text-blue-400 underline"
+                  >
+                    現在時刻に戻る
+                  </button>
+                )}
               </div>
-            </div>
-          )}
 
-          {/* Hourly chart - toggle */}
-          {hourlyData && (
-            <div className="bg-white/5 backdrop-blur rounded-xl border border-white/10 p-4">
-              <button
-                onClick={() => setShowDetail(!showDetail)}
-                className="flex items-center justify-between w-full"
-              >
-                <h2 className="text-sm font-semibold text-white/80">時間別潮位</h2>
-                <span className="text-xs text-white/40">{showDetail ? "▲ 閉じる" : "▼ 開く"}</span>
-              </button>
-              {showDetail && (
-                <div className="mt-3 overflow-x-auto">
-                  <div className="flex gap-0.5 min-w-[500px]">
-                    {hourlyData.map((h: { hour: string; cm: string }, i: number) => {
-                      const height = parseInt(h.cm, 10);
-                      const maxH = Math.max(
-                        ...hourlyData.map((x: { cm: string }) => parseInt(x.cm, 10) || 0)
-                      );
-                      const pct = maxH > 0 ? (height / maxH) * 100 : 0;
-                      const isNow =
-                        selectedDate.toDateString() === new Date().toDateString() &&
-                        i === new Date().getHours();
+              {/* Current flow description */}
+              {currentFlow && (
+                <div className="bg-white/5 backdrop-blur rounded-xl border border-white/10 p-4">
+                  <p className="text-xs text-white/50 mb-1">
+                    {scrubMinutes === null && isToday
+                      ? "現在の推定潮流"
+                      : `${formatMinutes(flowMinutes)}頃の推定潮流`}
+                  </p>
+                  <p className="text-sm text-white/70">{currentFlow.description}</p>
+                </div>
+              )}
+
+              <SpotFlowPanel
+                flow={currentFlow}
+                timeLabel={scrubMinutes === null && isToday ? "現在" : `${formatMinutes(flowMinutes)}頃`}
+                onChange={setSpotMarkers}
+              />
+
+              <FlowAlerts portId={portId} tideDay={tideDay} />
+
+              <CatchMapPanel onChange={setCatchMarkers} />
+
+              {/* Tide events - compact */}
+              {tideEvents.length > 0 && (
+                <div className="bg-white/5 backdrop-blur rounded-xl border border-white/10 p-4">
+                  <h2 className="text-sm font-semibold text-white/80 mb-3">満潮・干潮（{port.name}）</h2>
+                  <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+                    {tideEvents.map((event, i) => (
+                      <div
+                        key={i}
+                        className={`rounded-lg p-2.5 text-center ${
+                          event.type === "high"
+                            ? "bg-blue-500/15 border border-blue-500/30"
+                            : "bg-orange-500/15 border border-orange-500/30"
+                        }`}
+                      >
+                        <div className={`text-[10px] font-semibold mb-0.5 ${
+                          event.type === "high" ? "text-blue-400" : "text-orange-400"
+                        }`}>
+                          {event.type === "high" ? "満潮" : "干潮"}
+                        </div>
+                        <div className="text-lg font-bold text-white">{event.time}</div>
+                        <div className="text-xs text-white/60">{event.height}cm</div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              <MazumePanel sun={sunTimes} windows={mazume} portName={port.name} />
+
+              {tideDay && tideEvents.length > 1 && (
+                <BestTimePanel day={tideDay} sun={sunTimes} mazume={mazume} nowMinutes={isToday ? nowMinutes : null} />
+              )}
+
+              {/* Tide Flow Timeline */}
+              {tideEvents.length > 1 && (
+                <div className="bg-white/5 backdrop-blur rounded-xl border border-white/10 p-4">
+                  <h2 className="text-sm font-semibold text-white/80 mb-1">潮流タイムライン</h2>
+                  <p className="text-[10px] text-white/40 mb-3">
+                    転流: {flowTurns.filter((t) => t.type === "slack").map((t) => t.time).join(" / ")}
+                  </p>
+                  {/* 24h strip: flow direction and strength, with the まずめ bands */}
+                  <div className="relative h-5 rounded overflow-hidden bg-white/5 flex">
+                    {flowStrip.map((flow, i) => (
+                      <div key={i} className={`flex-1 ${stripCellClass(flow)}`} />
+                    ))}
+                    {mazume.map((w) => (
+                      <div
+                        key={w.label}
+                        title={w.label}
+                        className={`absolute inset-y-0 border-x ${mazumeBandClass(w)}`}
+                        style={spanStyle(w.start, w.end)}
+                      />
+                    ))}
+                  </div>
+                  <div className="relative h-3 mb-3 text-[9px] text-white/40">
+                    {[0, 6, 12, 18].map((hour) => (
+                      <span key={hour} className="absolute" style={{ left: `${(hour / 24) * 100}%` }}>
+                        {hour}
+                      </span>
+                    ))}
+                  </div>
+                  <div className="space-y-1.5">
+                    {tideEvents.map((event, i) => {
+                      const next = tideEvents[i + 1];
+                      if (!next) return null;
+                      const isSouth = event.type === "high";
+                      const peak = flowTurns.find((t) => t.type === "max" && t.time > event.time);
+                      const [from, to] = [event.time, next.time].map((t) => {
+                        const [h, m] = t.split(":").map(Number);
+                        return h * 60 + m;
+                      });
+                      // まずめ windows whose running flow falls in this interval
+                      const overlaps = mazume.filter((w) => w.runs.some((r) => r.start < to && r.end > from));
                       return (
-                        <div key={i} className="flex flex-col items-center flex-1">
-                          <span className="text-[9px] text-white/40 mb-1">{height}</span>
-                          <div className="w-full h-16 flex items-end">
-                            <div
-                              className={`w-full rounded-t-sm ${
-                                isNow ? "bg-blue-400" : "bg-blue-500/40"
-                              }`}
-                              style={{ height: `${pct}%` }}
-                            />
-                          </div>
-                          <span className={`text-[9px] mt-1 ${
-                            isNow ? "font-bold text-blue-400" : "text-white/40"
+                        <div
+                          key={i}
+                          className={`flex items-center gap-3 rounded-lg px-3 py-2 text-sm ${
+                            isSouth ? "bg-orange-500/10" : "bg-blue-500/10"
+                          }`}
+                        >
+                          <span className="text-white/60 font-mono text-xs whitespace-nowrap">
+                            {event.time} → {next.time}
+                          </span>
+                          <span className={`font-semibold text-xs ${
+                            isSouth ? "text-orange-400" : "text-blue-400"
                           }`}>
-                            {i}
+                            {isSouth ? "↓ 南流（下げ潮）" : "↑ 北流（上げ潮）"}
                           </span>
+                          {overlaps.map((w) => (
+                            <span
+                              key={w.label}
+                              className="text-[10px] px-1.5 py-0.5 rounded bg-amber-400/20 text-amber-300 whitespace-nowrap"
+                            >
+                              ★{w.label}
+                            </span>
+                          ))}
+                          {peak && (
+                            <span className="ml-auto text-xs text-white/60 whitespace-nowrap">
+                              最強 <span className="font-mono">{peak.time}</span>{" "}
+                              <span className="font-semibold text-white">{peak.speedKnots.toFixed(1)}kt</span>
+                            </span>
+                          )}
                         </div>
                       );
                     })}
                   </div>
                 </div>
               )}
+
+              <WindTidePanel
+                portId={portId}
+                portName={port.name}
+                date={toDateKey(selectedDate)}
+                events={tideEvents}
+                nowHour={isToday ? Math.floor(nowMinutes / 60) : null}
+              />
+
+              {/* Tide curve */}
+              {tideDay && tideDay.hourly.length > 0 && (
+                <div className="bg-white/5 backdrop-blur rounded-xl border border-white/10 p-4">
+                  <h2 className="text-sm font-semibold text-white/80 mb-2">潮位グラフ（{port.name}）</h2>
+                  <TideChart
+                    portId={portId}
+                    day={tideDay}
+                    nowMinutes={isToday ? nowMinutes : null}
+                    mazume={mazume}
+                  />
+                </div>
+              )}
+
+              <footer className="text-center text-[10px] text-white/30 pt-2 pb-4">
+                {tideDay?.source === "harmonic" ? (
+                  <p>潮汐データ: 調和定数による推算値（tide736.net に接続できません） | 潮流の向きと強さは推定値です</p>
+                ) : (
+                  <p>潮汐データ: tide736.net | 潮流の向きと強さは推定値です</p>
+                )}
+                {offlinePrefetch && !offlineData && (
+                  <p>オフライン用に{port.name}の潮汐を保存済み（{offlinePrefetch.through.slice(5).replace("-", "/")}まで）</p>
+                )}
+              </footer>
             </div>
           )}
-
-          <footer className="text-center text-[10px] text-white/30 pt-2 pb-4">
-            <p>潮汐データ: tide736.net | 潮流の向きと強さは推定値です</p>
-          </footer>
-        </div>
+        </>
       )}
     </main>
   );
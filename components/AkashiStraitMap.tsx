@@ -2,7 +2,15 @@
 
 import { useRef, useEffect, useCallback } from "react";
 import L from "leaflet";
+import "leaflet.markercluster";
 import "leaflet/dist/leaflet.css";
+import "leaflet.markercluster/dist/MarkerCluster.css";
+import "leaflet.markercluster/dist/MarkerCluster.Default.css";
+import type { Port } from "@/lib/ports";
+import type { MapRecord } from "@/lib/fishing-records";
+import { flowDirectionKey } from "@/lib/catch-analytics";
+import { describePreference, SpotMarker } from "@/lib/fishing-spots";
+import { sampleCurrentField } from "@/lib/current-field";
 
 // Akashi Strait center
 const AKASHI_CENTER: [number, number] = [34.62, 134.98];
@@ -48,8 +56,14 @@ interface Particle {
 interface Props {
   direction: FlowDirection;
   strength: FlowStrength;
+  speedKnots?: number;
   directionLabel: string;
   strengthLabel: string;
+  port?: Port;
+  // Geotagged catches to plot as clustered markers
+  catches?: MapRecord[];
+  // Saved spots; active ones are in their preferred flow right now
+  spots?: SpotMarker[];
 }
 
 function pointInPolygon(lng: number, lat: number, poly: [number, number][]): boolean {
@@ -68,42 +82,80 @@ function isWater(lng: number, lat: number): boolean {
   return WATER_POLYGONS.some((p) => pointInPolygon(lng, lat, p));
 }
 
-// Flow direction angle in the strait (in radians, in lng/lat coordinate space)
-// The strait runs roughly ENE-WSW.
-// 南流 (ebb / "south flow") actually flows eastward through the strait toward Osaka Bay
-// 北流 (flood / "north flow") actually flows westward toward Harima-nada
-function getFlowAngle(direction: FlowDirection, lng: number): number {
-  // Slight curvature: in the narrow section (lng ~134.95-135.05) flow is more E-W,
-  // on the west side it angles slightly south, on the east side slightly south too
-  const baseSouth = 0; // 0 = east
-  const baseNorth = Math.PI; // PI = west
-
-  // Add gentle curvature based on longitude
-  const center = 134.98;
-  const curve = (lng - center) * 0.3;
-
-  if (direction === "south") return baseSouth + curve + (Math.random() - 0.5) * 0.3;
-  if (direction === "north") return baseNorth + curve + (Math.random() - 0.5) * 0.3;
-  return Math.random() * Math.PI * 2; // slack
+// Marker colours match the 南流/北流 colours used in the timeline
+const CATCH_COLORS: Record<string, string> = {
+  南流: "#fb923c",
+  北流: "#60a5fa",
+  転流: "#94a3b8",
+};
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+}
+
+function catchPopupHtml(record: MapRecord): string {
+  const lines = [
+    `<strong>${escapeHtml(record.fish_type ?? "魚種未記入")}</strong>${
+      record.fish_count != null ? ` ${record.fish_count}匹` : ""
+    }`,
+    `${record.date}${record.time ? ` ${record.time.slice(0, 5)}` : ""}${
+      record.tide_type ? ` ${escapeHtml(record.tide_type)}` : ""
+    }`,
+  ];
+  if (record.flow_direction) {
+    lines.push(
+      `${escapeHtml(record.flow_direction)} ${escapeHtml(record.flow_strength ?? "")}${
+        record.flow_speed_knots != null ? ` ${record.flow_speed_knots}kt` : ""
+      }`
+    );
+  }
+  return `<div style="font-size:12px;line-height:1.5">${lines.join("<br>")}</div>`;
+}
+
+function catchIcon(record: MapRecord): L.DivIcon {
+  const color = CATCH_COLORS[flowDirectionKey(record.flow_direction, record.flow_strength) ?? ""] ?? "#e2e8f0";
+  return L.divIcon({
+    className: "",
+    html: `<span style="display:block;width:14px;height:14px;border-radius:50%;background:${color};border:2px solid #fff;box-shadow:0 0 3px rgba(0,0,0,.6)"></span>`,
+    iconSize: [14, 14],
+    iconAnchor: [7, 7],
+    popupAnchor: [0, -7],
+  });
+}
+
+// Random heading for drifting particles at slack water
+function slackAngle(): number {
+  return Math.random() * Math.PI * 2;
 }
 
 export default function AkashiStraitMap({
   direction,
   strength,
+  speedKnots,
   directionLabel,
   strengthLabel,
+  port,
+  catches,
+  spots,
 }: Props) {
   const containerRef = useRef<HTMLDivElement>(null);
   const mapRef = useRef<L.Map | null>(null);
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
   const particlesRef = useRef<Particle[]>([]);
   const rafRef = useRef(0);
+  const portMarkerRef = useRef<L.CircleMarker | null>(null);
+  const catchLayerRef = useRef<L.MarkerClusterGroup | null>(null);
+  const spotLayerRef = useRef<L.LayerGroup | null>(null);
   const dirRef = useRef(direction);
   const strRef = useRef(strength);
+  const knotsRef = useRef(speedKnots);
   dirRef.current = direction;
   strRef.current = strength;
+  knotsRef.current = speedKnots;
 
-  const speedFor = useCallback((s: FlowStrength) => {
+  // Particle speed in degrees per frame; scales with knots when known
+  const speedFor = useCallback((s: FlowStrength, knots?: number) => {
+    if (knots != null) return 0.0001 * Math.max(knots, 0.5);
     return s === "strong" ? 0.0006 : s === "medium" ? 0.00035 : 0.00015;
   }, []);
 
@@ -120,7 +172,7 @@ export default function AkashiStraitMap({
       lat = latMin + Math.random() * (latMax - latMin);
       if (isWater(lng, lat)) break;
     }
-    const base = speedFor(strRef.current);
+    const base = speedFor(strRef.current, knotsRef.current);
     const maxLife = 100 + Math.random() * 180;
     return {
       lat, lng,
@@ -182,9 +234,79 @@ export default function AkashiStraitMap({
       cancelAnimationFrame(rafRef.current);
       map.remove();
       mapRef.current = null;
+      catchLayerRef.current = null;
+      spotLayerRef.current = null;
     };
   }, []);
 
+  // Selected port marker
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map) return;
+    portMarkerRef.current?.remove();
+    portMarkerRef.current = null;
+    if (!port) return;
+
+    const latLng: [number, number] = [port.lat, port.lng];
+    portMarkerRef.current = L.circleMarker(latLng, {
+      radius: 7,
+      color: "#facc15",
+      weight: 2,
+      fillColor: "#facc15",
+      fillOpacity: 0.6,
+    })
+      .bindTooltip(`${port.name}（${port.area}）`, { direction: "top", offset: [0, -6] })
+      .addTo(map);
+
+    if (!map.getBounds().contains(latLng)) {
+      map.flyTo(latLng, map.getZoom());
+    }
+  }, [port]);
+
+  // Catch markers, clustered so busy spots stay readable when zoomed out
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map) return;
+    if (!catchLayerRef.current) {
+      catchLayerRef.current = L.markerClusterGroup({ showCoverageOnHover: false, maxClusterRadius: 40 });
+      map.addLayer(catchLayerRef.current);
+    }
+    const layer = catchLayerRef.current;
+    layer.clearLayers();
+    for (const record of catches ?? []) {
+      if (record.lat == null || record.lng == null) continue;
+      layer.addLayer(
+        L.marker([record.lat, record.lng], { icon: catchIcon(record) }).bindPopup(catchPopupHtml(record))
+      );
+    }
+  }, [catches]);
+
+  // Saved spots; the ones in their preferred flow get a larger green marker
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map) return;
+    if (!spotLayerRef.current) spotLayerRef.current = L.layerGroup().addTo(map);
+    const layer = spotLayerRef.current;
+    layer.clearLayers();
+    for (const { spot, active } of spots ?? []) {
+      if (spot.lat == null || spot.lng == null) continue;
+      L.circleMarker([spot.lat, spot.lng], {
+        radius: active ? 10 : 6,
+        color: active ? "#4ade80" : "#e2e8f0",
+        weight: 2,
+        fillColor: active ? "#22c55e" : "#64748b",
+        fillOpacity: active ? 0.7 : 0.4,
+      })
+        .bindTooltip(escapeHtml(spot.name), { direction: "top", offset: [0, -8], permanent: active })
+        .bindPopup(
+          `<div style="font-size:12px;line-height:1.5"><strong>${escapeHtml(spot.name)}</strong><br>` +
+            `好条件: ${escapeHtml(describePreference(spot))}${active ? "（今が好条件）" : ""}` +
+            `${spot.depth_m != null ? `<br>水深 ${spot.depth_m}m` : ""}</div>`
+        )
+        .addTo(layer);
+    }
+  }, [spots]);
+
   // Reinit particles when direction/strength change
   useEffect(() => {
     const n = countFor(strength);
@@ -239,10 +361,23 @@ export default function AkashiStraitMap({
           continue;
         }
 
-        // Move in geo coordinates
-        const angle = getFlowAngle(dir, p.lng);
-        p.lng += Math.cos(angle) * p.speed * slackMult;
-        p.lat += Math.sin(angle) * p.speed * slackMult * 0.7;
+        // Move in geo coordinates, following the local current vector.
+        // 南流 runs eastward through the strait toward 大阪湾, 北流 westward.
+        const vec = sampleCurrentField(p.lng, p.lat, dir);
+        let localSpeed = vec.speed;
+        if (dir === "slack") {
+          const angle = slackAngle();
+          p.lng += Math.cos(angle) * p.speed * slackMult;
+          p.lat += Math.sin(angle) * p.speed * slackMult * 0.7;
+          localSpeed = 0.3;
+        } else {
+          // Small heading jitter keeps the trails from looking mechanical
+          const jitter = (Math.random() - 0.5) * 0.15;
+          const cos = Math.cos(jitter);
+          const sin = Math.sin(jitter);
+          p.lng += (vec.u * cos - vec.v * sin) * p.speed;
+          p.lat += (vec.u * sin + vec.v * cos) * p.speed * 0.7;
+        }
 
         if (!isWater(p.lng, p.lat)) {
           particles[i] = spawnParticle(false);
@@ -264,7 +399,7 @@ export default function AkashiStraitMap({
             ctx.moveTo(a.x, a.y);
             ctx.lineTo(b.x, b.y);
             ctx.strokeStyle = `rgba(${rgb},${tAlpha})`;
-            ctx.lineWidth = 1.0 + (str === "strong" ? 0.6 : str === "medium" ? 0.3 : 0);
+            ctx.lineWidth = 0.8 + Math.min(localSpeed, 1.2) * (str === "strong" ? 1.0 : str === "medium" ? 0.7 : 0.4);
             ctx.stroke();
           }
         }
@@ -308,6 +443,7 @@ export default function AkashiStraitMap({
               strength === "medium" ? "text-blue-300" : "text-white/50"
             }>
               {strengthLabel}
+              {speedKnots != null && ` ${speedKnots.toFixed(1)}kt`}
             </span>
           </div>
         </div>
@@ -324,6 +460,13 @@ export default function AkashiStraitMap({
             <span className="w-4 h-[2px] bg-blue-200 rounded inline-block" />
             <span>北流（上げ潮・西流）</span>
           </div>
+          {catches && catches.length > 0 && (
+            <div className="flex items-center gap-1.5 mt-1 text-white/70">
+              <span className="w-2.5 h-2.5 rounded-full bg-orange-400 inline-block" />
+              <span className="w-2.5 h-2.5 rounded-full bg-blue-400 inline-block" />
+              <span>釣果（釣れた時の潮）</span>
+            </div>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,113 @@
+"use client";
+
+import { useState } from "react";
+import { sendMagicLink, signInWithPassword, signUpWithPassword } from "@/lib/auth";
+
+type Mode = "password" | "magic";
+
+export default function AuthPanel() {
+  const [mode, setMode] = useState<Mode>("password");
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async (action: () => Promise<void>, success?: string) => {
+    setSubmitting(true);
+    setError(null);
+    setMessage(null);
+    try {
+      await action();
+      if (success) setMessage(success);
+    } catch (e) {
+      setError((e as { message?: string }).message ?? "認証に失敗しました");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (mode === "magic") {
+      run(() => sendMagicLink(email), "ログイン用のリンクをメールで送信しました。");
+    } else {
+      run(() => signInWithPassword(email, password));
+    }
+  };
+
+  return (
+    <section className="bg-white rounded-xl shadow-sm border border-slate-200 p-4 sm:p-6">
+      <h2 className="text-lg font-bold text-slate-800 mb-1">ログイン</h2>
+      <p className="text-xs text-slate-500 mb-4">
+        釣果記録はアングラーごとに保存されます。チームに共有した記録はメンバー全員が閲覧できます。
+      </p>
+
+      <div className="flex gap-1 mb-3">
+        {([
+          ["password", "パスワード"],
+          ["magic", "メールリンク"],
+        ] as const).map(([key, label]) => (
+          <button
+            key={key}
+            onClick={() => setMode(key)}
+            className={`px-3 py-1.5 rounded-full text-xs transition-colors ${
+              mode === key ? "bg-blue-600 text-white" : "bg-slate-100 text-slate-600 hover:bg-slate-200"
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      <form onSubmit={handleSubmit} className="space-y-3">
+        <input
+          type="email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          required
+          autoComplete="email"
+          placeholder="メールアドレス"
+          className="w-full border border-slate-300 rounded-lg px-3 py-2 text-sm text-slate-700 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+        />
+        {mode === "password" && (
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            required
+            minLength={6}
+            autoComplete="current-password"
+            placeholder="パスワード"
+            className="w-full border border-slate-300 rounded-lg px-3 py-2 text-sm text-slate-700 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+          />
+        )}
+        <button
+          type="submit"
+          disabled={submitting}
+          className="w-full bg-blue-600 text-white py-2.5 rounded-lg text-sm font-medium hover:bg-blue-700 transition-colors disabled:opacity-50"
+        >
+          {submitting ? "送信中..." : mode === "magic" ? "ログインリンクを送る" : "ログイン"}
+        </button>
+        {mode === "password" && (
+          <button
+            type="button"
+            disabled={submitting || !email || password.length < 6}
+            onClick={() =>
+              run(
+                () => signUpWithPassword(email, password),
+                "確認メールを送信しました。メール内のリンクから登録を完了してください。"
+              )
+            }
+            className="w-full text-sm text-blue-600 underline disabled:opacity-50"
+          >
+            このメールアドレスで新規登録
+          </button>
+        )}
+      </form>
+
+      {message && <p className="mt-3 text-xs text-green-700">{message}</p>}
+      {error && <p className="mt-3 text-xs text-red-600">{error}</p>}
+    </section>
+  );
+}
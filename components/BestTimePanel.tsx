@@ -0,0 +1,132 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { getSupabase } from "@/lib/supabase";
+import { useSession } from "@/lib/auth";
+import { EMPTY_FILTERS, fetchAllRecords } from "@/lib/fishing-records";
+import { ANALYTICS_COLUMNS, AnalyticsRecord } from "@/lib/catch-analytics";
+import type { TideDay } from "@/lib/tide-api";
+import type { SunTimes } from "@/lib/sun";
+import type { MazumeWindow } from "@/lib/mazume";
+import {
+  scoreDay,
+  slotLabel,
+  speciesHistory,
+  TARGET_SPECIES,
+  TargetSpecies,
+  topSlots,
+} from "@/lib/fishing-score";
+
+const SPECIES_STORAGE_KEY = "akashi-tide:target-species";
+
+interface Props {
+  day: TideDay;
+  sun: SunTimes;
+  mazume: MazumeWindow[];
+  // Highlighted slot, when the date is today
+  nowMinutes: number | null;
+}
+
+function scoreClass(score: number) {
+  if (score >= 75) return "bg-emerald-400/80";
+  if (score >= 55) return "bg-emerald-400/45";
+  if (score >= 35) return "bg-emerald-400/20";
+  return "bg-white/5";
+}
+
+// Ranked fishing windows for the chosen species, from the tide and the angler's own catches
+export default function BestTimePanel({ day, sun, mazume, nowMinutes }: Props) {
+  const { session } = useSession();
+  const userId = session?.user.id ?? null;
+  const [species, setSpecies] = useState<TargetSpecies>(TARGET_SPECIES[0]);
+  const [records, setRecords] = useState<AnalyticsRecord[]>([]);
+
+  useEffect(() => {
+    const saved = localStorage.getItem(SPECIES_STORAGE_KEY);
+    if ((TARGET_SPECIES as readonly string[]).includes(saved ?? "")) setSpecies(saved as TargetSpecies);
+  }, []);
+
+  useEffect(() => {
+    const client = getSupabase();
+    if (!client || !userId) {
+      setRecords([]);
+      return;
+    }
+    let cancelled = false;
+    fetchAllRecords(client, EMPTY_FILTERS, userId, ANALYTICS_COLUMNS)
+      .then((rows) => {
+        if (!cancelled) setRecords(rows);
+      })
+      .catch((error) => {
+        if (cancelled) return;
+        console.error("Supabase error:", error);
+        setRecords([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  const history = useMemo(() => speciesHistory(records, species), [records, species]);
+  const slots = useMemo(() => scoreDay(day, species, sun, mazume, history), [day, species, sun, mazume, history]);
+  const best = useMemo(() => topSlots(slots, 5), [slots]);
+
+  const handleSpecies = (value: TargetSpecies) => {
+    setSpecies(value);
+    localStorage.setItem(SPECIES_STORAGE_KEY, value);
+  };
+
+  return (
+    <div className="bg-white/5 backdrop-blur rounded-xl border border-white/10 p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h2 className="text-sm font-semibold text-white/80">狙い目の時間</h2>
+        <select
+          value={species}
+          onChange={(e) => handleSpecies(e.target.value as TargetSpecies)}
+          className="bg-white/10 border border-white/20 rounded-md px-1.5 py-0.5 text-xs text-white outline-none [&>option]:text-slate-800"
+        >
+          {TARGET_SPECIES.map((s) => (
+            <option key={s} value={s}>{s}</option>
+          ))}
+        </select>
+      </div>
+
+      <ol className="space-y-1.5 mb-3">
+        {best.map((slot, i) => (
+          <li key={slot.start} className="flex items-center gap-2 rounded-lg bg-white/5 px-3 py-2 text-xs">
+            <span className={`w-4 text-center font-bold ${i === 0 ? "text-amber-300" : "text-white/50"}`}>{i + 1}</span>
+            <span className="font-mono text-white">{slotLabel(slot)}</span>
+            <span className="font-mono text-emerald-300 w-7 text-right">{slot.score}</span>
+            <span className="text-white/60 truncate">{slot.reasons.join(", ")}</span>
+          </li>
+        ))}
+      </ol>
+
+      {/* 24h strip, one cell per slot */}
+      <div className="flex gap-px">
+        {slots.map((slot) => (
+          <div
+            key={slot.start}
+            title={`${slotLabel(slot)} ${slot.score}点`}
+            className={`flex-1 h-3 rounded-sm ${scoreClass(slot.score)} ${
+              nowMinutes !== null && nowMinutes >= slot.start && nowMinutes < slot.end ? "ring-1 ring-blue-400" : ""
+            }`}
+          />
+        ))}
+      </div>
+      <div className="flex justify-between text-[9px] text-white/30 mt-0.5">
+        <span>0</span>
+        <span>6</span>
+        <span>12</span>
+        <span>18</span>
+        <span>24</span>
+      </div>
+      <p className="text-[10px] text-white/40 mt-2">
+        潮流・潮の分・潮回り・時間帯から算出
+        {history && history.trips > 0
+          ? ` | ${species}の釣果記録${history.trips}件を反映`
+          : " | 釣果記録なし（記録が増えると自分の実績を反映します）"}
+      </p>
+    </div>
+  );
+}
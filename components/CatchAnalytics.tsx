@@ -0,0 +1,279 @@
+"use client";
+
+import { useState, useEffect, useMemo } from "react";
+import { getSupabase } from "@/lib/supabase";
+import { useSession } from "@/lib/auth";
+import { EMPTY_FILTERS, fetchAllRecords } from "@/lib/fishing-records";
+import {
+  aggregateBySpecies,
+  ANALYTICS_COLUMNS,
+  AnalyticsRecord,
+  bestConditions,
+  Bucket,
+  Dimension,
+  DIMENSION_KEYS,
+  DIMENSION_LABELS,
+} from "@/lib/catch-analytics";
+
+const HEATMAP_DIMENSIONS: Dimension[] = ["tideName", "flowDirection", "strength", "timeOfDay"];
+
+type Scope = "mine" | "team";
+
+function BarChart({ buckets }: { buckets: Bucket[] }) {
+  const max = Math.max(1, ...buckets.map((b) => b.catches));
+  return (
+    <div className="flex gap-0.5 items-end">
+      {buckets.map((b) => (
+        <div key={b.key} className="flex flex-col items-center flex-1 min-w-0">
+          <span className="text-[9px] text-slate-500 mb-0.5">{b.catches || ""}</span>
+          <div className="w-full h-16 flex items-end">
+            <div
+              className="w-full rounded-t-sm bg-blue-500/70"
+              style={{ height: `${(b.catches / max) * 100}%` }}
+            />
+          </div>
+          <span className="text-[8px] text-slate-500 mt-1 whitespace-nowrap">
+            {b.key.replace("満潮", "満").replace("干潮", "干")}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default function CatchAnalytics() {
+  const { session, loading: sessionLoading } = useSession();
+  const userId = session?.user.id ?? null;
+  const [scope, setScope] = useState<Scope>("mine");
+  const [records, setRecords] = useState<AnalyticsRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [supabaseReady, setSupabaseReady] = useState(true);
+  // Message of the last failed load; bumping reloadKey retries it
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [dimension, setDimension] = useState<Dimension>("tideName");
+  const [selectedSpecies, setSelectedSpecies] = useState<string | null>(null);
+
+  useEffect(() => {
+    const client = getSupabase();
+    if (!client) { setSupabaseReady(false); setLoading(false); return; }
+    if (!userId) return;
+    setLoading(true);
+    setLoadError(null);
+    // A slow load for the previous scope must not overwrite the current one
+    let cancelled = false;
+    (async () => {
+      try {
+        // RLS already limits rows to the angler's own plus team-shared records
+        const owner = scope === "mine" ? userId : undefined;
+        const rows = await fetchAllRecords(client, EMPTY_FILTERS, owner, ANALYTICS_COLUMNS);
+        if (!cancelled) setRecords(rows);
+      } catch (error) {
+        if (cancelled) return;
+        console.error("Supabase error:", error);
+        setRecords([]);
+        setLoadError((error as { message?: string }).message ?? "");
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, scope, reloadKey]);
+
+  const stats = useMemo(() => aggregateBySpecies(records), [records]);
+  const selected = stats.find((s) => s.species === selectedSpecies) ?? stats[0];
+  const best = selected ? bestConditions(selected) : [];
+
+  // Heatmap intensity is the average catch per trip, normalised over the table
+  const heatMax = Math.max(
+    0.0001,
+    ...stats.flatMap((s) => s.buckets[dimension].map((b) => (b.trips ? b.catches / b.trips : 0)))
+  );
+
+  if (!supabaseReady) {
+    return (
+      <section className="bg-white rounded-xl shadow-sm border border-slate-200 p-4 sm:p-6">
+        <h2 className="text-lg font-bold text-slate-800 mb-3">釣果分析</h2>
+        <p className="text-sm text-amber-800 bg-amber-50 border border-amber-200 rounded-lg p-4">
+          釣果分析を使用するにはSupabaseの設定が必要です。
+        </p>
+      </section>
+    );
+  }
+
+  if (!sessionLoading && !session) {
+    return (
+      <section className="bg-white rounded-xl shadow-sm border border-slate-200 p-4 sm:p-6">
+        <h2 className="text-lg font-bold text-slate-800 mb-3">釣果分析</h2>
+        <p className="text-sm text-slate-500 text-center py-4">
+          釣果記録タブからログインすると分析を表示できます
+        </p>
+      </section>
+    );
+  }
+
+  return (
+    <section className="bg-white rounded-xl shadow-sm border border-slate-200 p-4 sm:p-6 space-y-5">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-bold text-slate-800">釣果分析</h2>
+        <div className="flex gap-1">
+          {([
+            ["mine", "自分"],
+            ["team", "チーム"],
+          ] as const).map(([key, label]) => (
+            <button
+              key={key}
+              onClick={() => setScope(key)}
+              className={`px-2.5 py-1 rounded-full text-xs transition-colors ${
+                scope === key ? "bg-blue-600 text-white" : "bg-slate-100 text-slate-600 hover:bg-slate-200"
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {loading ? (
+        <p className="text-sm text-slate-500 text-center py-4">読み込み中...</p>
+      ) : loadError !== null ? (
+        <div className="text-sm text-red-700 bg-red-50 border border-red-200 rounded-lg p-4">
+          <p>釣果記録を読み込めませんでした{loadError && `: ${loadError}`}</p>
+          <button onClick={() => setReloadKey((k) => k + 1)} className="mt-2 text-xs text-red-700 underline">
+            再読み込み
+          </button>
+        </div>
+      ) : stats.length === 0 ? (
+        <p className="text-sm text-slate-500 text-center py-4">分析できる釣果記録がありません</p>
+      ) : (
+        <>
+          {/* Species × condition heatmap */}
+          <div>
+            <div className="flex flex-wrap gap-1 mb-2">
+              {HEATMAP_DIMENSIONS.map((d) => (
+                <button
+                  key={d}
+                  onClick={() => setDimension(d)}
+                  className={`px-2.5 py-1 rounded-full text-xs transition-colors ${
+                    dimension === d ? "bg-blue-600 text-white" : "bg-slate-100 text-slate-600 hover:bg-slate-200"
+                  }`}
+                >
+                  {DIMENSION_LABELS[d]}
+                </button>
+              ))}
+            </div>
+            <div className="overflow-x-auto">
+              <table className="text-xs border-separate border-spacing-0.5">
+                <thead>
+                  <tr>
+                    <th />
+                    {DIMENSION_KEYS[dimension].map((key) => (
+                      <th key={key} className="font-medium text-slate-500 px-1 whitespace-nowrap">
+                        {key}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {stats.map((s) => (
+                    <tr key={s.species}>
+                      <th className="text-left font-medium text-slate-700 pr-2 whitespace-nowrap">
+                        {s.species}
+                      </th>
+                      {s.buckets[dimension]
+                        .filter((b) => DIMENSION_KEYS[dimension].includes(b.key))
+                        .map((b) => {
+                          const avg = b.trips ? b.catches / b.trips : 0;
+                          return (
+                            <td
+                              key={b.key}
+                              title={`${b.catches}匹 / ${b.trips}回`}
+                              className="w-12 h-8 text-center rounded"
+                              style={{ backgroundColor: `rgba(37, 99, 235, ${(avg / heatMax) * 0.85})` }}
+                            >
+                              <span className={avg / heatMax > 0.5 ? "text-white" : "text-slate-600"}>
+                                {b.trips ? avg.toFixed(1) : "-"}
+                              </span>
+                            </td>
+                          );
+                        })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <p className="text-[10px] text-slate-400 mt-1">数値は1回あたりの平均釣果（匹）</p>
+          </div>
+
+          {/* Per-species detail */}
+          {selected && (
+            <div>
+              <select
+                value={selected.species}
+                onChange={(e) => setSelectedSpecies(e.target.value)}
+                className="border border-slate-300 rounded-lg px-3 py-2 text-sm text-slate-700 focus:ring-2 focus:ring-blue-500 outline-none mb-3"
+              >
+                {stats.map((s) => (
+                  <option key={s.species} value={s.species}>
+                    {s.species}（{s.catches}匹 / {s.trips}回）
+                  </option>
+                ))}
+              </select>
+
+              {best.length > 0 && (
+                <div className="bg-green-50 border border-green-200 rounded-lg p-3 mb-4">
+                  <p className="text-xs font-semibold text-green-800 mb-1">
+                    {selected.species}が最も釣れている条件
+                  </p>
+                  <ul className="text-xs text-green-900 space-y-0.5">
+                    {best.map((b) => (
+                      <li key={b.dimension}>
+                        {DIMENSION_LABELS[b.dimension]}: <span className="font-semibold">{b.key}</span>
+                        <span className="text-green-700">（平均{b.average.toFixed(1)}匹 / {b.trips}回）</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              <div className="space-y-4">
+                <div>
+                  <h3 className="text-xs font-semibold text-slate-600 mb-1">
+                    {DIMENSION_LABELS.eventOffset}
+                  </h3>
+                  <div className="overflow-x-auto">
+                    <div className="min-w-[420px]">
+                      <BarChart buckets={selected.buckets.eventOffset} />
+                    </div>
+                  </div>
+                </div>
+                <div>
+                  <h3 className="text-xs font-semibold text-slate-600 mb-1">
+                    {DIMENSION_LABELS.timeOfDay}
+                  </h3>
+                  <BarChart buckets={selected.buckets.timeOfDay} />
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <h3 className="text-xs font-semibold text-slate-600 mb-1">
+                      {DIMENSION_LABELS.flowDirection}
+                    </h3>
+                    <BarChart buckets={selected.buckets.flowDirection} />
+                  </div>
+                  <div>
+                    <h3 className="text-xs font-semibold text-slate-600 mb-1">
+                      {DIMENSION_LABELS.strength}
+                    </h3>
+                    <BarChart buckets={selected.buckets.strength} />
+                  </div>
+                </div>
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,122 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { getSupabase } from "@/lib/supabase";
+import { useSession } from "@/lib/auth";
+import { fetchGeotaggedRecords, MapRecord } from "@/lib/fishing-records";
+import { flowDirectionKey, splitSpecies } from "@/lib/catch-analytics";
+
+type FlowFilter = "" | "南流" | "北流" | "転流";
+
+type MapFilters = {
+  species: string;
+  from: string;
+  to: string;
+  flow: FlowFilter;
+};
+
+const EMPTY_MAP_FILTERS: MapFilters = { species: "", from: "", to: "", flow: "" };
+
+function matches(record: MapRecord, f: MapFilters): boolean {
+  if (f.species && !splitSpecies(record.fish_type).includes(f.species)) return false;
+  if (f.from && record.date < f.from) return false;
+  if (f.to && record.date > f.to) return false;
+  if (f.flow && flowDirectionKey(record.flow_direction, record.flow_strength) !== f.flow) return false;
+  return true;
+}
+
+interface Props {
+  onChange: (records: MapRecord[]) => void;
+}
+
+// Filters for the catch markers on the strait map
+export default function CatchMapPanel({ onChange }: Props) {
+  const { session } = useSession();
+  const userId = session?.user.id ?? null;
+  const [records, setRecords] = useState<MapRecord[]>([]);
+  const [visible, setVisible] = useState(true);
+  const [filters, setFilters] = useState<MapFilters>(EMPTY_MAP_FILTERS);
+
+  useEffect(() => {
+    const client = getSupabase();
+    if (!client || !userId) {
+      setRecords([]);
+      return;
+    }
+    fetchGeotaggedRecords(client)
+      .then(setRecords)
+      .catch((error) => console.error("Supabase error:", error));
+  }, [userId]);
+
+  const species = useMemo(
+    () => Array.from(new Set(records.flatMap((r) => splitSpecies(r.fish_type)))).sort(),
+    [records]
+  );
+  const filtered = useMemo(() => records.filter((r) => matches(r, filters)), [records, filters]);
+
+  useEffect(() => {
+    onChange(visible ? filtered : []);
+  }, [visible, filtered, onChange]);
+
+  if (!userId || records.length === 0) return null;
+
+  // Counts per flow for the current species/date selection, ignoring the flow filter itself
+  const byFlow = records
+    .filter((r) => matches(r, { ...filters, flow: "" }))
+    .reduce<Record<string, number>>((acc, r) => {
+      const key = flowDirectionKey(r.flow_direction, r.flow_strength) ?? "不明";
+      acc[key] = (acc[key] ?? 0) + (r.fish_count ?? 0);
+      return acc;
+    }, {});
+
+  const update = (key: keyof MapFilters, value: string) => {
+    setFilters((prev) => ({ ...prev, [key]: value }));
+  };
+
+  const inputClass =
+    "bg-white/10 border border-white/20 rounded-md px-2 py-1.5 text-xs text-white focus:ring-2 focus:ring-blue-500 outline-none [color-scheme:dark]";
+
+  return (
+    <div className="bg-white/5 backdrop-blur rounded-xl border border-white/10 p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h2 className="text-sm font-semibold text-white/80">釣果マップ</h2>
+        <label className="flex items-center gap-1.5 text-xs text-white/60">
+          <input type="checkbox" checked={visible} onChange={(e) => setVisible(e.target.checked)} />
+          地図に表示
+        </label>
+      </div>
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+        <select value={filters.species} onChange={(e) => update("species", e.target.value)} className={inputClass}>
+          <option value="">全魚種</option>
+          {species.map((s) => (
+            <option key={s} value={s}>{s}</option>
+          ))}
+        </select>
+        <select value={filters.flow} onChange={(e) => update("flow", e.target.value)} className={inputClass}>
+          <option value="">全ての潮</option>
+          <option value="南流">南流</option>
+          <option value="北流">北流</option>
+          <option value="転流">転流</option>
+        </select>
+        <input
+          type="date"
+          value={filters.from}
+          onChange={(e) => update("from", e.target.value)}
+          aria-label="開始日"
+          className={inputClass}
+        />
+        <input
+          type="date"
+          value={filters.to}
+          onChange={(e) => update("to", e.target.value)}
+          aria-label="終了日"
+          className={inputClass}
+        />
+      </div>
+      <p className="text-[10px] text-white/40 mt-2">
+        {filtered.length}件表示 ・ 釣果数 南流 {byFlow["南流"] ?? 0}匹 / 北流 {byFlow["北流"] ?? 0}匹 / 転流{" "}
+        {byFlow["転流"] ?? 0}匹
+      </p>
+    </div>
+  );
+}
@@ -1,84 +1,341 @@
 "use client";
 
-import { useState, useEffect, useCallback } from "react";
-import { getSupabase, FishingRecord } from "@/lib/supabase";
+import { useState, useEffect, useCallback, useRef } from "react";
+import dynamic from "next/dynamic";
+import { getSupabase, FishingRecord, FishingSpot } from "@/lib/supabase";
+import { fetchTideContext, EMPTY_TIDE_CONTEXT } from "@/lib/tide-context";
+import {
+  fetchRecordsPage,
+  insertRecord,
+  updateRecord,
+  deleteRecord,
+  RecordFilters,
+  EMPTY_FILTERS,
+} from "@/lib/fishing-records";
+import {
+  enqueueRecord,
+  isOfflineQueueAvailable,
+  listPendingRecords,
+  removePendingRecord,
+  retryPendingRecord,
+  syncPendingRecords,
+  PendingRecord,
+} from "@/lib/offline-queue";
+import { tideNameForDate } from "@/lib/moon";
+import { fetchSpots } from "@/lib/fishing-spots";
+import type { PreparedPhoto, RecordPhoto } from "@/lib/photos";
+import { getPhotoStorage, photoFilePaths, uploadPhotos } from "@/lib/photo-storage";
+import { useSession, signOut } from "@/lib/auth";
+import AuthPanel from "@/components/AuthPanel";
+import PhotoPicker from "@/components/PhotoPicker";
+import RecordPhotos from "@/components/RecordPhotos";
+import RecordTransfer from "@/components/RecordTransfer";
+import { isPortId, PortId } from "@/lib/ports";
 
-export default function FishingRecords() {
+const LocationPicker = dynamic(() => import("@/components/LocationPicker"), {
+  ssr: false,
+  loading: () => <div className="w-full h-48 rounded-lg bg-slate-100" />,
+});
+
+interface Props {
+  portId: PortId;
+}
+
+function formatEventOffset(type: string | null, offset: number | null) {
+  if (!type || offset == null) return null;
+  const label = type === "high" ? "満潮" : "干潮";
+  const hours = Math.abs(offset) / 60;
+  if (hours < 0.25) return `${label}前後`;
+  return `${label}${offset < 0 ? "前" : "後"}${hours.toFixed(1)}h`;
+}
+
+const TIDE_TYPES = ["大潮", "中潮", "小潮", "長潮", "若潮"];
+
+function todayValue() {
+  return new Date().toISOString().split("T")[0];
+}
+
+export default function FishingRecords({ portId }: Props) {
+  const { session, loading: sessionLoading } = useSession();
+  const userId = session?.user.id ?? null;
   const [records, setRecords] = useState<FishingRecord[]>([]);
   const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [page, setPage] = useState(0);
+  const [hasMore, setHasMore] = useState(false);
   const [showForm, setShowForm] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  // Port the edited record was logged at; its tide context is recomputed there
+  const [editingPortId, setEditingPortId] = useState<PortId | null>(null);
   const [supabaseReady, setSupabaseReady] = useState(true);
 
+  // Filters as typed, and the debounced copy used for queries
+  const [filters, setFilters] = useState<RecordFilters>(EMPTY_FILTERS);
+  const [appliedFilters, setAppliedFilters] = useState<RecordFilters>(EMPTY_FILTERS);
+  const [showFilters, setShowFilters] = useState(false);
+  const [showTransfer, setShowTransfer] = useState(false);
+  const sentinelRef = useRef<HTMLDivElement>(null);
+
+  // Records saved on this device that have not reached Supabase yet
+  const [pending, setPending] = useState<PendingRecord[]>([]);
+  const [online, setOnline] = useState(true);
+
+  // Saved spots a record can reference
+  const [spots, setSpots] = useState<FishingSpot[]>([]);
+
   // Form state
-  const [date, setDate] = useState(() => {
-    const d = new Date();
-    return d.toISOString().split("T")[0];
-  });
+  const [date, setDate] = useState(todayValue);
   const [time, setTime] = useState("");
-  const [tideType, setTideType] = useState("");
+  const [tideType, setTideType] = useState<string>(() => tideNameForDate(date));
   const [fishCount, setFishCount] = useState("");
   const [fishType, setFishType] = useState("");
   const [memo, setMemo] = useState("");
+  const [shared, setShared] = useState(false);
+  const [existingPhotos, setExistingPhotos] = useState<RecordPhoto[]>([]);
+  const [removedPhotos, setRemovedPhotos] = useState<RecordPhoto[]>([]);
+  const [newPhotos, setNewPhotos] = useState<PreparedPhoto[]>([]);
+  const [lat, setLat] = useState<number | null>(null);
+  const [lng, setLng] = useState<number | null>(null);
+  const [spotId, setSpotId] = useState("");
   const [submitting, setSubmitting] = useState(false);
 
-  const fetchRecords = useCallback(async () => {
+  // Bumped by every page-0 load; responses from older loads are dropped so a
+  // slow answer for previous filters cannot replace the current list
+  const requestRef = useRef(0);
+
+  // page 0 replaces the list, later pages append to it
+  const fetchRecords = useCallback(async (f: RecordFilters, pageIndex: number) => {
     const client = getSupabase();
     if (!client) { setSupabaseReady(false); setLoading(false); return; }
+    const request = pageIndex === 0 ? ++requestRef.current : requestRef.current;
+    const isCurrent = () => request === requestRef.current;
+    if (pageIndex > 0) setLoadingMore(true);
     try {
-      const { data, error } = await client
-        .from("fishing_records")
-        .select("*")
-        .order("date", { ascending: false })
-        .limit(20);
-
-      if (error) {
-        console.error("Supabase error:", error);
-        if (error.message?.includes("Invalid API key") || error.message?.includes("Invalid URL")) {
-          setSupabaseReady(false);
-        }
-        return;
+      const result = await fetchRecordsPage(client, f, pageIndex);
+      if (!isCurrent()) return;
+      setRecords((prev) => (pageIndex === 0 ? result.records : [...prev, ...result.records]));
+      setHasMore(result.hasMore);
+      setPage(pageIndex);
+    } catch (error) {
+      if (!isCurrent()) return;
+      console.error("Supabase error:", error);
+      const message = (error as { message?: string }).message ?? "";
+      if (message.includes("Invalid API key") || message.includes("Invalid URL")) {
+        setSupabaseReady(false);
       }
-      setRecords(data || []);
-    } catch {
-      setSupabaseReady(false);
     } finally {
-      setLoading(false);
+      if (isCurrent()) setLoading(false);
+      // At most one next-page load runs at a time, so it always clears its own spinner
+      if (isCurrent() || pageIndex > 0) setLoadingMore(false);
     }
   }, []);
 
   useEffect(() => {
-    fetchRecords();
-  }, [fetchRecords]);
+    const timer = setTimeout(() => setAppliedFilters(filters), 300);
+    return () => clearTimeout(timer);
+  }, [filters]);
+
+  useEffect(() => {
+    if (!userId) return;
+    setLoading(true);
+    fetchRecords(appliedFilters, 0);
+  }, [appliedFilters, userId, fetchRecords]);
+
+  // Infinite scroll: load the next page when the sentinel comes into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMore || loadingMore) return;
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0]?.isIntersecting) fetchRecords(appliedFilters, page + 1);
+    });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, loadingMore, page, appliedFilters, fetchRecords]);
+
+  useEffect(() => {
+    const client = getSupabase();
+    if (!client || !userId) return;
+    fetchSpots(client)
+      .then(setSpots)
+      .catch((error) => console.error("Supabase error:", error));
+  }, [userId]);
+
+  const refreshPending = useCallback(async () => {
+    if (!isOfflineQueueAvailable() || !userId) return;
+    const all = await listPendingRecords();
+    setPending(all.filter((entry) => entry.fields.user_id === userId));
+  }, [userId]);
+
+  const runSync = useCallback(async () => {
+    const client = getSupabase();
+    // RLS needs a signed-in user; records wait in the queue until then
+    if (!client || !userId || !isOfflineQueueAvailable()) return;
+    try {
+      const result = await syncPendingRecords(client, userId);
+      if (result.synced > 0) fetchRecords(appliedFilters, 0);
+    } finally {
+      refreshPending();
+    }
+  }, [appliedFilters, userId, fetchRecords, refreshPending]);
+
+  // Sync on mount, when the connection comes back, and periodically while records are waiting
+  useEffect(() => {
+    setOnline(navigator.onLine);
+    const handleOnline = () => {
+      setOnline(true);
+      runSync();
+    };
+    const handleOffline = () => setOnline(false);
+    window.addEventListener("online", handleOnline);
+    window.addEventListener("offline", handleOffline);
+    runSync();
+    return () => {
+      window.removeEventListener("online", handleOnline);
+      window.removeEventListener("offline", handleOffline);
+    };
+  }, [runSync]);
+
+  useEffect(() => {
+    if (!pending.some((p) => p.status === "pending")) return;
+    const interval = setInterval(runSync, 60000);
+    return () => clearInterval(interval);
+  }, [pending, runSync]);
+
+  const handleRetryPending = async (entry: PendingRecord) => {
+    await retryPendingRecord(entry.id);
+    runSync();
+  };
+
+  const handleDiscardPending = async (entry: PendingRecord) => {
+    if (!confirm("未送信の記録を破棄しますか？この操作は取り消せません。")) return;
+    await removePendingRecord(entry.id);
+    refreshPending();
+  };
+
+  const resetForm = () => {
+    const today = todayValue();
+    setEditingId(null);
+    setEditingPortId(null);
+    setDate(today);
+    setTime("");
+    setTideType(tideNameForDate(today));
+    setFishCount("");
+    setFishType("");
+    setMemo("");
+    setShared(false);
+    setExistingPhotos([]);
+    setRemovedPhotos([]);
+    setNewPhotos([]);
+    setLat(null);
+    setLng(null);
+    setSpotId("");
+  };
+
+  const startEdit = (record: FishingRecord) => {
+    setEditingId(record.id);
+    setEditingPortId(isPortId(record.port_id) ? record.port_id : null);
+    setDate(record.date);
+    setTime(record.time ? record.time.slice(0, 5) : "");
+    setTideType(record.tide_type ?? "");
+    setFishCount(record.fish_count != null ? String(record.fish_count) : "");
+    setFishType(record.fish_type ?? "");
+    setMemo(record.memo ?? "");
+    setShared(record.shared);
+    setExistingPhotos(record.photos);
+    setRemovedPhotos([]);
+    setNewPhotos([]);
+    setLat(record.lat);
+    setLng(record.lng);
+    setSpotId(record.spot_id ?? "");
+    setShowForm(true);
+    window.scrollTo({ top: 0, behavior: "smooth" });
+  };
+
+  const handleDelete = async (record: FishingRecord) => {
+    const label = `${record.date}${record.fish_type ? ` ${record.fish_type}` : ""}`;
+    if (!confirm(`${label} の記録を削除しますか？この操作は取り消せません。`)) return;
+    const client = getSupabase();
+    if (!client) return;
+    try {
+      await deleteRecord(client, record.id);
+      setRecords((prev) => prev.filter((r) => r.id !== record.id));
+      // The row is gone either way; orphaned files are only wasted space
+      getPhotoStorage(client)
+        .remove(photoFilePaths(record.photos))
+        .catch((error) => console.error("Photo delete error:", error));
+      if (editingId === record.id) {
+        resetForm();
+        setShowForm(false);
+      }
+    } catch (error) {
+      alert("削除に失敗しました: " + (error as { message?: string }).message);
+    }
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setSubmitting(true);
 
     const client = getSupabase();
-    if (!client) { setSubmitting(false); return; }
-    const { error } = await client.from("fishing_records").insert({
+    if (!client || !userId) { setSubmitting(false); return; }
+    // Tide context needs a time of day; records without one are saved as-is
+    // Edits keep the record's own port; new records and ones without a port use the selected port
+    const contextPortId = (editingId && editingPortId) || portId;
+    const context = time ? await fetchTideContext(contextPortId, date, time) : null;
+    const fields = {
       date,
       time: time || null,
       tide_type: tideType || null,
       fish_count: fishCount ? parseInt(fishCount, 10) : null,
       fish_type: fishType || null,
       memo: memo || null,
-    });
+      shared,
+      lat,
+      lng,
+      spot_id: spotId || null,
+    };
 
-    if (error) {
-      alert("保存に失敗しました: " + error.message);
-    } else {
+    try {
+      if (editingId) {
+        const storage = getPhotoStorage(client);
+        const uploaded = await uploadPhotos(storage, userId, editingId, newPhotos);
+        await updateRecord(client, editingId, {
+          ...fields,
+          ...(context ?? EMPTY_TIDE_CONTEXT),
+          photos: [...existingPhotos, ...uploaded],
+        });
+        if (removedPhotos.length > 0) {
+          storage
+            .remove(photoFilePaths(removedPhotos))
+            .catch((error) => console.error("Photo delete error:", error));
+        }
+        fetchRecords(appliedFilters, 0);
+      } else if (isOfflineQueueAvailable()) {
+        // Save locally first; the queue uploads photos and pushes the record when possible
+        await enqueueRecord({ ...fields, user_id: userId, photos: [], ...(context ?? {}) }, newPhotos);
+        await refreshPending();
+        runSync();
+      } else {
+        // Photo paths include the record id, so it is generated before upload
+        const id = crypto.randomUUID();
+        const photos = await uploadPhotos(getPhotoStorage(client), userId, id, newPhotos);
+        await insertRecord(client, { ...fields, id, user_id: userId, photos, ...(context ?? {}) });
+        fetchRecords(appliedFilters, 0);
+      }
       setShowForm(false);
-      setTime("");
-      setTideType("");
-      setFishCount("");
-      setFishType("");
-      setMemo("");
-      fetchRecords();
+      resetForm();
+    } catch (error) {
+      alert("保存に失敗しました: " + (error as { message?: string }).message);
     }
     setSubmitting(false);
   };
 
+  const updateFilter = (key: keyof RecordFilters, value: string) => {
+    setFilters((prev) => ({ ...prev, [key]: value }));
+  };
+
+  const filtersActive = Object.values(appliedFilters).some((v) => v !== "");
+
   if (!supabaseReady) {
     return (
       <section className="bg-white rounded-xl shadow-sm border border-slate-200 p-4 sm:p-6">
@@ -97,20 +354,147 @@ export default function FishingRecords() {
     );
   }
 
+  if (sessionLoading) {
+    return (
+      <section className="bg-white rounded-xl shadow-sm border border-slate-200 p-4 sm:p-6">
+        <p className="text-sm text-slate-500 text-center py-4">読み込み中...</p>
+      </section>
+    );
+  }
+
+  if (!session) {
+    return <AuthPanel />;
+  }
+
   return (
     <section className="bg-white rounded-xl shadow-sm border border-slate-200 p-4 sm:p-6">
+      <div className="flex items-center justify-between text-[10px] text-slate-400 mb-2">
+        <span>{session.user.email}</span>
+        <button onClick={() => signOut()} className="underline hover:text-slate-600">
+          ログアウト
+        </button>
+      </div>
       <div className="flex items-center justify-between mb-4">
         <h2 className="text-lg font-bold text-slate-800">釣果記録</h2>
-        <button
-          onClick={() => setShowForm(!showForm)}
-          className="bg-blue-600 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-blue-700 transition-colors"
-        >
-          {showForm ? "閉じる" : "+ 記録する"}
-        </button>
+        <div className="flex gap-2">
+          <button
+            onClick={() => setShowFilters(!showFilters)}
+            className={`px-3 py-2 rounded-lg text-sm font-medium transition-colors ${
+              filtersActive ? "bg-blue-100 text-blue-700" : "bg-slate-100 text-slate-600 hover:bg-slate-200"
+            }`}
+          >
+            絞り込み{filtersActive && " ●"}
+          </button>
+          <button
+            onClick={() => setShowTransfer(!showTransfer)}
+            className={`px-3 py-2 rounded-lg text-sm font-medium transition-colors ${
+              showTransfer ? "bg-blue-100 text-blue-700" : "bg-slate-100 text-slate-600 hover:bg-slate-200"
+            }`}
+          >
+            入出力
+          </button>
+          <button
+            onClick={() => {
+              if (showForm) resetForm();
+              setShowForm(!showForm);
+            }}
+            className="bg-blue-600 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-blue-700 transition-colors"
+          >
+            {showForm ? "閉じる" : "+ 記録する"}
+          </button>
+        </div>
       </div>
 
+      {showFilters && (
+        <div className="mb-4 space-y-2 bg-slate-50 border border-slate-200 rounded-lg p-3">
+          <input
+            type="search"
+            value={filters.search}
+            onChange={(e) => updateFilter("search", e.target.value)}
+            placeholder="メモを検索"
+            className="w-full border border-slate-300 rounded-lg px-3 py-2 text-sm text-slate-700 focus:ring-2 focus:ring-blue-500 outline-none"
+          />
+          <div className="grid grid-cols-2 gap-2">
+            <input
+              type="date"
+              value={filters.from}
+              onChange={(e) => updateFilter("from", e.target.value)}
+              aria-label="開始日"
+              className="border border-slate-300 rounded-lg px-3 py-2 text-sm text-slate-700 focus:ring-2 focus:ring-blue-500 outline-none"
+            />
+            <input
+              type="date"
+              value={filters.to}
+              onChange={(e) => updateFilter("to", e.target.value)}
+              aria-label="終了日"
+              className="border border-slate-300 rounded-lg px-3 py-2 text-sm text-slate-700 focus:ring-2 focus:ring-blue-500 outline-none"
+            />
+          </div>
+          {spots.length > 0 && (
+            <select
+              value={filters.spotId}
+              onChange={(e) => updateFilter("spotId", e.target.value)}
+              className="w-full border border-slate-300 rounded-lg px-3 py-2 text-sm text-slate-700 focus:ring-2 focus:ring-blue-500 outline-none"
+            >
+              <option value="">全てのポイント</option>
+              {spots.map((s) => (
+                <option key={s.id} value={s.id}>{s.name}</option>
+              ))}
+            </select>
+          )}
+          <div className="grid grid-cols-3 gap-2">
+            <input
+              type="text"
+              value={filters.species}
+              onChange={(e) => updateFilter("species", e.target.value)}
+              placeholder="魚種"
+              className="border border-slate-300 rounded-lg px-3 py-2 text-sm text-slate-700 focus:ring-2 focus:ring-blue-500 outline-none"
+            />
+            <select
+              value={filters.tideType}
+              onChange={(e) => updateFilter("tideType", e.target.value)}
+              className="border border-slate-300 rounded-lg px-3 py-2 text-sm text-slate-700 focus:ring-2 focus:ring-blue-500 outline-none"
+            >
+              <option value="">潮回り</option>
+              {TIDE_TYPES.map((t) => (
+                <option key={t} value={t}>{t}</option>
+              ))}
+            </select>
+            <input
+              type="number"
+              min="0"
+              value={filters.minCount}
+              onChange={(e) => updateFilter("minCount", e.target.value)}
+              placeholder="最低釣果数"
+              className="border border-slate-300 rounded-lg px-3 py-2 text-sm text-slate-700 focus:ring-2 focus:ring-blue-500 outline-none"
+            />
+          </div>
+          {filtersActive && (
+            <button
+              onClick={() => setFilters(EMPTY_FILTERS)}
+              className="text-xs text-blue-600 underline"
+            >
+              条件をクリア
+            </button>
+          )}
+        </div>
+      )}
+
+      {showTransfer && userId && (
+        <RecordTransfer
+          userId={userId}
+          portId={portId}
+          filters={appliedFilters}
+          spots={spots}
+          onImported={() => fetchRecords(appliedFilters, 0)}
+        />
+      )}
+
       {showForm && (
         <form onSubmit={handleSubmit} className="mb-6 space-y-3">
+          {editingId && (
+            <p className="text-xs font-semibold text-blue-700">記録を編集中</p>
+          )}
           <div className="grid grid-cols-2 gap-3">
             <div>
               <label className="block text-xs font-medium text-slate-600 mb-1">
@@ -119,7 +503,11 @@ export default function FishingRecords() {
               <input
                 type="date"
                 value={date}
-                onChange={(e) => setDate(e.target.value)}
+                onChange={(e) => {
+                  setDate(e.target.value);
+                  // Re-derive 潮回り from the moon age; it can still be overridden below
+                  if (e.target.value) setTideType(tideNameForDate(e.target.value));
+                }}
                 required
                 className="w-full border border-slate-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
               />
@@ -134,6 +522,7 @@ export default function FishingRecords() {
                 onChange={(e) => setTime(e.target.value)}
                 className="w-full border border-slate-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
               />
+              <p className="text-[10px] text-slate-400 mt-1">入力すると潮流情報も記録されます</p>
             </div>
           </div>
           <div className="grid grid-cols-2 gap-3">
@@ -147,11 +536,9 @@ export default function FishingRecords() {
                 className="w-full border border-slate-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
               >
                 <option value="">選択</option>
-                <option value="大潮">大潮</option>
-                <option value="中潮">中潮</option>
-                <option value="小潮">小潮</option>
-                <option value="長潮">長潮</option>
-                <option value="若潮">若潮</option>
+                {TIDE_TYPES.map((t) => (
+                  <option key={t} value={t}>{t}</option>
+                ))}
               </select>
             </div>
             <div>
@@ -192,21 +579,128 @@ export default function FishingRecords() {
               placeholder="ポイント、仕掛け、天候など"
             />
           </div>
+          {spots.length > 0 && (
+            <div>
+              <label className="block text-xs font-medium text-slate-600 mb-1">
+                ポイント
+              </label>
+              <select
+                value={spotId}
+                onChange={(e) => {
+                  setSpotId(e.target.value);
+                  // Use the spot's position unless a catch location was already set
+                  const spot = spots.find((s) => s.id === e.target.value);
+                  if (spot && lat == null && spot.lat != null && spot.lng != null) {
+                    setLat(spot.lat);
+                    setLng(spot.lng);
+                  }
+                }}
+                className="w-full border border-slate-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+              >
+                <option value="">選択しない</option>
+                {spots.map((s) => (
+                  <option key={s.id} value={s.id}>{s.name}</option>
+                ))}
+              </select>
+            </div>
+          )}
+          <LocationPicker
+            lat={lat}
+            lng={lng}
+            onChange={(nextLat, nextLng) => {
+              setLat(nextLat);
+              setLng(nextLng);
+            }}
+          />
+          <PhotoPicker
+            existing={existingPhotos}
+            onRemoveExisting={(photo) => {
+              setExistingPhotos((prev) => prev.filter((p) => p.path !== photo.path));
+              setRemovedPhotos((prev) => [...prev, photo]);
+            }}
+            added={newPhotos}
+            onAdd={(photos) => setNewPhotos((prev) => [...prev, ...photos])}
+            onRemoveAdded={(id) => setNewPhotos((prev) => prev.filter((p) => p.id !== id))}
+          />
+          <label className="flex items-center gap-2 text-sm text-slate-600">
+            <input
+              type="checkbox"
+              checked={shared}
+              onChange={(e) => setShared(e.target.checked)}
+              className="rounded border-slate-300"
+            />
+            チームに共有する
+          </label>
           <button
             type="submit"
             disabled={submitting}
             className="w-full bg-green-600 text-white py-2.5 rounded-lg text-sm font-medium hover:bg-green-700 transition-colors disabled:opacity-50"
           >
-            {submitting ? "保存中..." : "保存する"}
+            {submitting ? "保存中..." : editingId ? "更新する" : "保存する"}
           </button>
         </form>
       )}
 
+      {!online && (
+        <p className="mb-3 text-xs text-amber-800 bg-amber-50 border border-amber-200 rounded-lg px-3 py-2">
+          オフラインです。新しい記録は端末に保存され、接続が戻ると自動で送信されます。
+        </p>
+      )}
+
+      {pending.length > 0 && (
+        <div className="space-y-2 mb-3">
+          {pending.map((entry) => (
+            <div
+              key={entry.id}
+              className={`border border-dashed rounded-lg p-3 ${
+                entry.status === "failed" ? "border-red-300 bg-red-50" : "border-amber-300 bg-amber-50"
+              }`}
+            >
+              <div className="flex items-center justify-between mb-1">
+                <span className="text-sm font-semibold text-slate-700">
+                  {entry.fields.date}
+                  {entry.fields.time && ` ${entry.fields.time}`}
+                </span>
+                <span
+                  className={`text-xs px-2 py-0.5 rounded-full ${
+                    entry.status === "failed" ? "bg-red-100 text-red-700" : "bg-amber-100 text-amber-700"
+                  }`}
+                >
+                  {entry.status === "failed" ? "送信失敗" : "未送信"}
+                </span>
+              </div>
+              <div className="text-sm text-slate-600">
+                {entry.fields.fish_type && <span className="mr-3">{entry.fields.fish_type}</span>}
+                {entry.fields.fish_count != null && (
+                  <span className="font-medium">{entry.fields.fish_count}匹</span>
+                )}
+                {entry.photos && entry.photos.length > 0 && (
+                  <span className="ml-3 text-xs text-slate-500">写真{entry.photos.length}枚</span>
+                )}
+              </div>
+              {entry.lastError && (
+                <p className="text-[10px] text-slate-500 mt-1">
+                  {entry.attempts}回失敗: {entry.lastError}
+                </p>
+              )}
+              <div className="flex justify-end gap-3 mt-2 text-xs">
+                <button onClick={() => handleRetryPending(entry)} className="text-blue-600 hover:underline">
+                  再送
+                </button>
+                <button onClick={() => handleDiscardPending(entry)} className="text-red-600 hover:underline">
+                  破棄
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
       {loading ? (
         <p className="text-sm text-slate-500 text-center py-4">読み込み中...</p>
       ) : records.length === 0 ? (
         <p className="text-sm text-slate-500 text-center py-4">
-          まだ釣果記録がありません
+          {filtersActive ? "条件に一致する記録がありません" : "まだ釣果記録がありません"}
         </p>
       ) : (
         <div className="space-y-3">
@@ -220,11 +714,22 @@ export default function FishingRecords() {
                   {record.date}
                   {record.time && ` ${record.time}`}
                 </span>
-                {record.tide_type && (
-                  <span className="text-xs bg-blue-100 text-blue-700 px-2 py-0.5 rounded-full">
-                    {record.tide_type}
-                  </span>
-                )}
+                <div className="flex gap-1">
+                  {record.user_id !== userId ? (
+                    <span className="text-xs bg-purple-100 text-purple-700 px-2 py-0.5 rounded-full">
+                      チーム
+                    </span>
+                  ) : record.shared ? (
+                    <span className="text-xs bg-green-100 text-green-700 px-2 py-0.5 rounded-full">
+                      共有中
+                    </span>
+                  ) : null}
+                  {record.tide_type && (
+                    <span className="text-xs bg-blue-100 text-blue-700 px-2 py-0.5 rounded-full">
+                      {record.tide_type}
+                    </span>
+                  )}
+                </div>
               </div>
               <div className="text-sm text-slate-600">
                 {record.fish_type && (
@@ -233,12 +738,65 @@ export default function FishingRecords() {
                 {record.fish_count != null && (
                   <span className="font-medium">{record.fish_count}匹</span>
                 )}
+                {record.spot_id ? (
+                  <span className="ml-3 text-xs text-slate-500">
+                    📍{spots.find((s) => s.id === record.spot_id)?.name ?? "ポイント"}
+                  </span>
+                ) : record.lat != null ? (
+                  <span className="ml-3 text-xs text-slate-400">📍位置あり</span>
+                ) : null}
               </div>
+              {record.flow_direction && (
+                <div className="flex flex-wrap gap-1 mt-1.5 text-[10px]">
+                  {record.tide_phase && (
+                    <span className="bg-slate-100 text-slate-600 px-1.5 py-0.5 rounded">
+                      {record.tide_phase}
+                    </span>
+                  )}
+                  <span className="bg-slate-100 text-slate-600 px-1.5 py-0.5 rounded">
+                    {record.flow_direction} {record.flow_strength}
+                    {record.flow_speed_knots != null && ` ${record.flow_speed_knots}kt`}
+                  </span>
+                  {record.tide_height_cm != null && (
+                    <span className="bg-slate-100 text-slate-600 px-1.5 py-0.5 rounded">
+                      潮位 {record.tide_height_cm}cm
+                    </span>
+                  )}
+                  {formatEventOffset(record.nearest_event_type, record.nearest_event_offset_min) && (
+                    <span className="bg-slate-100 text-slate-600 px-1.5 py-0.5 rounded">
+                      {formatEventOffset(record.nearest_event_type, record.nearest_event_offset_min)}
+                    </span>
+                  )}
+                </div>
+              )}
               {record.memo && (
                 <p className="text-xs text-slate-500 mt-1">{record.memo}</p>
               )}
+              <RecordPhotos photos={record.photos} />
+              {/* Team members' shared records are read-only */}
+              {record.user_id === userId && (
+                <div className="flex justify-end gap-3 mt-2 text-xs">
+                  <button onClick={() => startEdit(record)} className="text-blue-600 hover:underline">
+                    編集
+                  </button>
+                  <button onClick={() => handleDelete(record)} className="text-red-600 hover:underline">
+                    削除
+                  </button>
+                </div>
+              )}
             </div>
           ))}
+          {hasMore && (
+            <div ref={sentinelRef} className="text-center py-2">
+              <button
+                onClick={() => fetchRecords(appliedFilters, page + 1)}
+                disabled={loadingMore}
+                className="text-sm text-blue-600 underline disabled:opacity-50"
+              >
+                {loadingMore ? "読み込み中..." : "さらに読み込む"}
+              </button>
+            </div>
+          )}
         </div>
       )}
     </section>
@@ -0,0 +1,319 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import dynamic from "next/dynamic";
+import { getSupabase, FishingSpot } from "@/lib/supabase";
+import { useSession } from "@/lib/auth";
+import {
+  fetchSpots,
+  insertSpot,
+  updateSpot,
+  deleteSpot,
+  describePreference,
+  FLOW_DIRECTIONS,
+  FLOW_STRENGTHS,
+} from "@/lib/fishing-spots";
+import AuthPanel from "@/components/AuthPanel";
+
+const LocationPicker = dynamic(() => import("@/components/LocationPicker"), {
+  ssr: false,
+  loading: () => <div className="w-full h-48 rounded-lg bg-slate-100" />,
+});
+
+function toggle(list: string[], value: string): string[] {
+  return list.includes(value) ? list.filter((v) => v !== value) : [...list, value];
+}
+
+export default function FishingSpots() {
+  const { session, loading: sessionLoading } = useSession();
+  const userId = session?.user.id ?? null;
+  const [spots, setSpots] = useState<FishingSpot[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  // Form state
+  const [name, setName] = useState("");
+  const [lat, setLat] = useState<number | null>(null);
+  const [lng, setLng] = useState<number | null>(null);
+  const [depth, setDepth] = useState("");
+  const [notes, setNotes] = useState("");
+  const [goodDirections, setGoodDirections] = useState<string[]>([]);
+  const [goodStrengths, setGoodStrengths] = useState<string[]>([]);
+  const [shared, setShared] = useState(false);
+
+  const loadSpots = useCallback(async () => {
+    const client = getSupabase();
+    if (!client) { setLoading(false); return; }
+    try {
+      setSpots(await fetchSpots(client));
+    } catch (error) {
+      console.error("Supabase error:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (userId) loadSpots();
+  }, [userId, loadSpots]);
+
+  const resetForm = () => {
+    setEditingId(null);
+    setName("");
+    setLat(null);
+    setLng(null);
+    setDepth("");
+    setNotes("");
+    setGoodDirections([]);
+    setGoodStrengths([]);
+    setShared(false);
+  };
+
+  const startEdit = (spot: FishingSpot) => {
+    setEditingId(spot.id);
+    setName(spot.name);
+    setLat(spot.lat);
+    setLng(spot.lng);
+    setDepth(spot.depth_m != null ? String(spot.depth_m) : "");
+    setNotes(spot.notes ?? "");
+    setGoodDirections(spot.good_directions);
+    setGoodStrengths(spot.good_strengths);
+    setShared(spot.shared);
+    setShowForm(true);
+    window.scrollTo({ top: 0, behavior: "smooth" });
+  };
+
+  const handleDelete = async (spot: FishingSpot) => {
+    if (!confirm(`${spot.name} を削除しますか？このポイントを参照している釣果記録からは外れます。`)) return;
+    const client = getSupabase();
+    if (!client) return;
+    try {
+      await deleteSpot(client, spot.id);
+      setSpots((prev) => prev.filter((s) => s.id !== spot.id));
+      if (editingId === spot.id) {
+        resetForm();
+        setShowForm(false);
+      }
+    } catch (error) {
+      alert("削除に失敗しました: " + (error as { message?: string }).message);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const client = getSupabase();
+    if (!client || !userId) return;
+    setSubmitting(true);
+    const fields = {
+      name: name.trim(),
+      lat,
+      lng,
+      depth_m: depth ? parseFloat(depth) : null,
+      notes: notes || null,
+      good_directions: goodDirections,
+      good_strengths: goodStrengths,
+      shared,
+    };
+    try {
+      if (editingId) {
+        await updateSpot(client, editingId, fields);
+      } else {
+        await insertSpot(client, { ...fields, user_id: userId });
+      }
+      setShowForm(false);
+      resetForm();
+      loadSpots();
+    } catch (error) {
+      alert("保存に失敗しました: " + (error as { message?: string }).message);
+    }
+    setSubmitting(false);
+  };
+
+  if (!getSupabase()) {
+    return (
+      <section className="bg-white rounded-xl shadow-sm border border-slate-200 p-4 sm:p-6">
+        <h2 className="text-lg font-bold text-slate-800 mb-3">ポイント</h2>
+        <p className="text-sm text-amber-800 bg-amber-50 border border-amber-200 rounded-lg p-4">
+          ポイント管理を使用するにはSupabaseの設定が必要です。
+        </p>
+      </section>
+    );
+  }
+
+  if (sessionLoading) {
+    return (
+      <section className="bg-white rounded-xl shadow-sm border border-slate-200 p-4 sm:p-6">
+        <p className="text-sm text-slate-500 text-center py-4">読み込み中...</p>
+      </section>
+    );
+  }
+
+  if (!session) {
+    return <AuthPanel />;
+  }
+
+  const chipClass = (active: boolean) =>
+    `px-3 py-1 rounded-full text-xs transition-colors ${
+      active ? "bg-blue-600 text-white" : "bg-slate-100 text-slate-600 hover:bg-slate-200"
+    }`;
+
+  return (
+    <section className="bg-white rounded-xl shadow-sm border border-slate-200 p-4 sm:p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-bold text-slate-800">ポイント</h2>
+        <button
+          onClick={() => {
+            if (showForm) resetForm();
+            setShowForm(!showForm);
+          }}
+          className="bg-blue-600 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-blue-700 transition-colors"
+        >
+          {showForm ? "閉じる" : "+ ポイント追加"}
+        </button>
+      </div>
+
+      {showForm && (
+        <form onSubmit={handleSubmit} className="mb-6 space-y-3">
+          {editingId && <p className="text-xs font-semibold text-blue-700">ポイントを編集中</p>}
+          <div>
+            <label className="block text-xs font-medium text-slate-600 mb-1">名前 *</label>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              required
+              className="w-full border border-slate-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+              placeholder="例: 明石港西波止場"
+            />
+          </div>
+          <LocationPicker
+            lat={lat}
+            lng={lng}
+            onChange={(nextLat, nextLng) => {
+              setLat(nextLat);
+              setLng(nextLng);
+            }}
+          />
+          <div>
+            <label className="block text-xs font-medium text-slate-600 mb-1">水深</label>
+            <input
+              type="number"
+              min="0"
+              step="0.1"
+              value={depth}
+              onChange={(e) => setDepth(e.target.value)}
+              className="w-full border border-slate-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+              placeholder="m"
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-slate-600 mb-1">よく釣れる潮の向き</label>
+            <div className="flex gap-1">
+              {FLOW_DIRECTIONS.map((d) => (
+                <button
+                  key={d}
+                  type="button"
+                  onClick={() => setGoodDirections((prev) => toggle(prev, d))}
+                  className={chipClass(goodDirections.includes(d))}
+                >
+                  {d}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-slate-600 mb-1">よく釣れる流れの強さ</label>
+            <div className="flex gap-1">
+              {FLOW_STRENGTHS.map((s) => (
+                <button
+                  key={s}
+                  type="button"
+                  onClick={() => setGoodStrengths((prev) => toggle(prev, s))}
+                  className={chipClass(goodStrengths.includes(s))}
+                >
+                  {s}
+                </button>
+              ))}
+            </div>
+            <p className="text-[10px] text-slate-400 mt-1">
+              選んだ条件に今の潮流が合うと、潮流画面でポイントが強調表示されます
+            </p>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-slate-600 mb-1">メモ</label>
+            <textarea
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              rows={2}
+              className="w-full border border-slate-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none resize-none"
+              placeholder="足場、駐車場、根の位置など"
+            />
+          </div>
+          <label className="flex items-center gap-2 text-sm text-slate-600">
+            <input
+              type="checkbox"
+              checked={shared}
+              onChange={(e) => setShared(e.target.checked)}
+              className="rounded border-slate-300"
+            />
+            チームに共有する
+          </label>
+          <button
+            type="submit"
+            disabled={submitting}
+            className="w-full bg-green-600 text-white py-2.5 rounded-lg text-sm font-medium hover:bg-green-700 transition-colors disabled:opacity-50"
+          >
+            {submitting ? "保存中..." : editingId ? "更新する" : "保存する"}
+          </button>
+        </form>
+      )}
+
+      {loading ? (
+        <p className="text-sm text-slate-500 text-center py-4">読み込み中...</p>
+      ) : spots.length === 0 ? (
+        <p className="text-sm text-slate-500 text-center py-4">まだポイントが登録されていません</p>
+      ) : (
+        <div className="space-y-3">
+          {spots.map((spot) => (
+            <div key={spot.id} className="border border-slate-200 rounded-lg p-3">
+              <div className="flex items-center justify-between mb-1">
+                <span className="text-sm font-semibold text-slate-700">{spot.name}</span>
+                {spot.user_id !== userId ? (
+                  <span className="text-xs bg-purple-100 text-purple-700 px-2 py-0.5 rounded-full">チーム</span>
+                ) : spot.shared ? (
+                  <span className="text-xs bg-green-100 text-green-700 px-2 py-0.5 rounded-full">共有中</span>
+                ) : null}
+              </div>
+              <div className="flex flex-wrap gap-1 text-[10px]">
+                <span className="bg-blue-50 text-blue-700 px-1.5 py-0.5 rounded">
+                  好条件: {describePreference(spot)}
+                </span>
+                {spot.depth_m != null && (
+                  <span className="bg-slate-100 text-slate-600 px-1.5 py-0.5 rounded">水深 {spot.depth_m}m</span>
+                )}
+                {spot.lat != null && spot.lng != null && (
+                  <span className="bg-slate-100 text-slate-600 px-1.5 py-0.5 rounded">
+                    {spot.lat.toFixed(4)}, {spot.lng.toFixed(4)}
+                  </span>
+                )}
+              </div>
+              {spot.notes && <p className="text-xs text-slate-500 mt-1">{spot.notes}</p>}
+              {spot.user_id === userId && (
+                <div className="flex justify-end gap-3 mt-2 text-xs">
+                  <button onClick={() => startEdit(spot)} className="text-blue-600 hover:underline">
+                    編集
+                  </button>
+                  <button onClick={() => handleDelete(spot)} className="text-red-600 hover:underline">
+                    削除
+                  </button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,215 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { getSupabase } from "@/lib/supabase";
+import { useSession } from "@/lib/auth";
+import type { TideDay } from "@/lib/tide-api";
+import { AlertRule, computeAlerts, describeRule, SLACK_LEAD_OPTIONS } from "@/lib/flow-alerts";
+import { jstDateKey, jstTime } from "@/lib/tide-timeline";
+import {
+  disablePush,
+  enablePush,
+  isPushSupported,
+  loadPushSettings,
+  PUSH_MODE,
+  showTestNotification,
+} from "@/lib/push";
+import { getPort, PortId } from "@/lib/ports";
+
+type Strength = "" | "強" | "中";
+
+interface Props {
+  portId: PortId;
+  tideDay: TideDay | null;
+}
+
+function toRules(slackLead: number | null, south: Strength, north: Strength): AlertRule[] {
+  const rules: AlertRule[] = [];
+  if (slackLead !== null) rules.push({ kind: "slack", leadMinutes: slackLead });
+  if (south) rules.push({ kind: "strength", direction: "南流", strength: south });
+  if (north) rules.push({ kind: "strength", direction: "北流", strength: north });
+  return rules;
+}
+
+// Alert settings for slack water and flow strength, shown on the flow view
+export default function FlowAlerts({ portId, tideDay }: Props) {
+  const { session } = useSession();
+  const [supported, setSupported] = useState(false);
+  const [enabled, setEnabled] = useState(false);
+  const [alertPortId, setAlertPortId] = useState<PortId>(portId);
+  const [slackLead, setSlackLead] = useState<number | null>(30);
+  const [south, setSouth] = useState<Strength>("強");
+  const [north, setNorth] = useState<Strength>("");
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    setSupported(isPushSupported());
+    const settings = loadPushSettings();
+    if (!settings) return;
+    setEnabled(true);
+    setAlertPortId(settings.portId);
+    const slack = settings.rules.find((r) => r.kind === "slack");
+    setSlackLead(slack?.kind === "slack" ? slack.leadMinutes : null);
+    const strength = (direction: "南流" | "北流") => {
+      const rule = settings.rules.find((r) => r.kind === "strength" && r.direction === direction);
+      return rule?.kind === "strength" ? rule.strength : "";
+    };
+    setSouth(strength("南流"));
+    setNorth(strength("北流"));
+  }, []);
+
+  const rules = useMemo(() => toRules(slackLead, south, north), [slackLead, south, north]);
+  const targetPortId = enabled ? alertPortId : portId;
+
+  // Next alerts of the displayed day, when it is today and the alert port
+  const upcoming = useMemo(() => {
+    if (!tideDay || tideDay.date !== jstDateKey(new Date()) || targetPortId !== portId) return [];
+    const now = new Date().toISOString();
+    return computeAlerts([tideDay], rules, getPort(portId).name)
+      .filter((a) => a.fireAt > now)
+      .slice(0, 3);
+  }, [tideDay, targetPortId, portId, rules]);
+
+  if (!supported) {
+    return (
+      <div className="bg-white/5 backdrop-blur rounded-xl border border-white/10 p-4">
+        <h2 className="text-sm font-semibold text-white/80 mb-1">潮流アラート</h2>
+        <p className="text-xs text-white/50">このブラウザは通知に対応していません。</p>
+      </div>
+    );
+  }
+
+  const needsLogin = PUSH_MODE === "webpush" && !session;
+
+  const save = async () => {
+    setSaving(true);
+    setMessage(null);
+    try {
+      if (rules.length === 0) {
+        await disablePush(getSupabase());
+        setEnabled(false);
+        setMessage("通知をオフにしました");
+      } else {
+        await enablePush({ portId: targetPortId, rules }, getSupabase());
+        setEnabled(true);
+        setAlertPortId(targetPortId);
+        setMessage(enabled ? "設定を更新しました" : "通知をオンにしました");
+      }
+    } catch (error) {
+      setMessage((error as Error).message);
+    }
+    setSaving(false);
+  };
+
+  const turnOff = async () => {
+    setSaving(true);
+    try {
+      await disablePush(getSupabase());
+      setEnabled(false);
+      setMessage("通知をオフにしました");
+    } catch (error) {
+      setMessage((error as Error).message);
+    }
+    setSaving(false);
+  };
+
+  const selectClass =
+    "bg-white/10 border border-white/20 rounded-md px-2 py-1 text-xs text-white focus:ring-2 focus:ring-blue-500 outline-none [&>option]:text-slate-800";
+
+  return (
+    <div className="bg-white/5 backdrop-blur rounded-xl border border-white/10 p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h2 className="text-sm font-semibold text-white/80">潮流アラート</h2>
+        <span className={`text-[10px] px-2 py-0.5 rounded-full ${enabled ? "bg-green-500/20 text-green-300" : "bg-white/10 text-white/50"}`}>
+          {enabled ? `オン（${getPort(alertPortId).name}）` : "オフ"}
+        </span>
+      </div>
+
+      {needsLogin ? (
+        <p className="text-xs text-white/50">通知を受け取るには「記録」タブからログインしてください。</p>
+      ) : (
+        <>
+          <div className="space-y-2 text-xs text-white/70">
+            <label className="flex items-center gap-2">
+              <input type="checkbox" checked={slackLead !== null} onChange={(e) => setSlackLead(e.target.checked ? 30 : null)} />
+              転流の
+              <select
+                value={slackLead ?? 30}
+                disabled={slackLead === null}
+                onChange={(e) => setSlackLead(Number(e.target.value))}
+                className={selectClass}
+              >
+                {SLACK_LEAD_OPTIONS.map((m) => (
+                  <option key={m} value={m}>{m}</option>
+                ))}
+              </select>
+              分前
+            </label>
+            {(
+              [
+                ["南流", south, setSouth],
+                ["北流", north, setNorth],
+              ] as const
+            ).map(([direction, value, setValue]) => (
+              <label key={direction} className="flex items-center gap-2">
+                <input type="checkbox" checked={value !== ""} onChange={(e) => setValue(e.target.checked ? "強" : "")} />
+                {direction}が
+                <select
+                  value={value || "強"}
+                  disabled={value === ""}
+                  onChange={(e) => setValue(e.target.value as Strength)}
+                  className={selectClass}
+                >
+                  <option value="強">強</option>
+                  <option value="中">中</option>
+                </select>
+                になったら
+              </label>
+            ))}
+          </div>
+
+          {upcoming.length > 0 && (
+            <ul className="mt-3 space-y-0.5 text-[11px] text-white/50">
+              {upcoming.map((a) => (
+                <li key={a.tag}>
+                  {jstTime(new Date(a.fireAt))} {a.title}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div className="flex flex-wrap items-center gap-2 mt-3">
+            <button
+              onClick={save}
+              disabled={saving}
+              className="bg-blue-500 text-white px-3 py-1.5 rounded-md text-xs font-medium hover:bg-blue-600 transition-colors disabled:opacity-50"
+            >
+              {enabled ? "設定を保存" : `${getPort(portId).name}の通知をオンにする`}
+            </button>
+            {enabled && (
+              <button onClick={turnOff} disabled={saving} className="text-xs text-white/50 hover:text-white/80 underline">
+                オフにする
+              </button>
+            )}
+            <button
+              onClick={() => showTestNotification().catch((e) => setMessage((e as Error).message))}
+              className="text-xs text-white/50 hover:text-white/80 underline"
+            >
+              テスト通知
+            </button>
+          </div>
+          {message && <p className="text-[11px] text-white/60 mt-2">{message}</p>}
+          {enabled && rules.length > 0 && (
+            <p className="text-[10px] text-white/40 mt-2">{rules.map(describeRule).join(" ・ ")}</p>
+          )}
+          {PUSH_MODE === "local" && (
+            <p className="text-[10px] text-amber-300/70 mt-2">
+              開発用のローカル通知モードです（VAPIDキー未設定）。アプリを開いている間だけ1分ごとに確認して通知します。
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
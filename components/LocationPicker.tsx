@@ -0,0 +1,113 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import L from "leaflet";
+import "leaflet/dist/leaflet.css";
+
+const AKASHI_CENTER: [number, number] = [34.62, 134.98];
+const DEFAULT_ZOOM = 11;
+
+interface Props {
+  lat: number | null;
+  lng: number | null;
+  onChange: (lat: number | null, lng: number | null) => void;
+}
+
+// ~1 m precision is plenty for a fishing spot
+function round(value: number) {
+  return Math.round(value * 100000) / 100000;
+}
+
+export default function LocationPicker({ lat, lng, onChange }: Props) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const mapRef = useRef<L.Map | null>(null);
+  const markerRef = useRef<L.CircleMarker | null>(null);
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+  const [locating, setLocating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!containerRef.current || mapRef.current) return;
+    const map = L.map(containerRef.current, {
+      center: lat != null && lng != null ? [lat, lng] : AKASHI_CENTER,
+      zoom: DEFAULT_ZOOM,
+    });
+    L.tileLayer("https://tile.openstreetmap.org/{z}/{x}/{y}.png", {
+      maxZoom: 19,
+      attribution: '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a>',
+    }).addTo(map);
+    map.on("click", (e: L.LeafletMouseEvent) => {
+      onChangeRef.current(round(e.latlng.lat), round(e.latlng.lng));
+    });
+    mapRef.current = map;
+    return () => {
+      map.remove();
+      mapRef.current = null;
+    };
+    // The map is created once; later position changes are handled below
+  }, []);
+
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map) return;
+    markerRef.current?.remove();
+    markerRef.current = null;
+    if (lat == null || lng == null) return;
+    markerRef.current = L.circleMarker([lat, lng], {
+      radius: 8,
+      color: "#dc2626",
+      weight: 2,
+      fillColor: "#ef4444",
+      fillOpacity: 0.7,
+    }).addTo(map);
+    if (!map.getBounds().contains([lat, lng])) map.panTo([lat, lng]);
+  }, [lat, lng]);
+
+  const locateWithGps = () => {
+    if (!navigator.geolocation) {
+      setError("この端末では位置情報を取得できません");
+      return;
+    }
+    setError(null);
+    setLocating(true);
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        setLocating(false);
+        const next: [number, number] = [round(position.coords.latitude), round(position.coords.longitude)];
+        onChange(next[0], next[1]);
+        mapRef.current?.setView(next, Math.max(mapRef.current.getZoom(), 14));
+      },
+      (e) => {
+        setLocating(false);
+        setError(e.code === e.PERMISSION_DENIED ? "位置情報の利用が許可されていません" : "位置情報を取得できませんでした");
+      },
+      { enableHighAccuracy: true, timeout: 15000 }
+    );
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-1">
+        <label className="block text-xs font-medium text-slate-600">釣れた場所</label>
+        <div className="flex gap-3 text-xs">
+          <button type="button" onClick={locateWithGps} disabled={locating} className="text-blue-600 hover:underline disabled:opacity-50">
+            {locating ? "取得中..." : "現在地を使う"}
+          </button>
+          {lat != null && (
+            <button type="button" onClick={() => onChange(null, null)} className="text-slate-500 hover:underline">
+              クリア
+            </button>
+          )}
+        </div>
+      </div>
+      <div ref={containerRef} className="w-full h-48 rounded-lg overflow-hidden border border-slate-300" />
+      <p className="text-[10px] text-slate-400 mt-1">
+        {lat != null && lng != null
+          ? `${lat.toFixed(5)}, ${lng.toFixed(5)}`
+          : "地図をタップして場所を指定（任意）"}
+      </p>
+      {error && <p className="text-xs text-red-600 mt-1">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+"use client";
+
+import type { SunTimes } from "@/lib/sun";
+import type { MazumeWindow } from "@/lib/mazume";
+import { minutesToTime } from "@/lib/tide-utils";
+
+interface Props {
+  sun: SunTimes;
+  windows: MazumeWindow[];
+  portName: string;
+}
+
+function formatTime(minutes: number | null) {
+  return minutes === null ? "--:--" : minutesToTime(minutes);
+}
+
+// Sunrise/sunset with civil twilight, and the まずめ windows with the flow running in them
+export default function MazumePanel({ sun, windows, portName }: Props) {
+  return (
+    <div className="bg-white/5 backdrop-blur rounded-xl border border-white/10 p-4">
+      <h2 className="text-sm font-semibold text-white/80 mb-3">日の出・日の入り（{portName}）</h2>
+      <div className="grid grid-cols-4 gap-2 text-center mb-3">
+        {([
+          ["薄明開始", sun.dawn],
+          ["日の出", sun.rise],
+          ["日の入り", sun.set],
+          ["薄明終了", sun.dusk],
+        ] as const).map(([label, minutes]) => (
+          <div key={label} className="rounded-lg bg-white/5 p-2">
+            <div className="text-[10px] text-white/50">{label}</div>
+            <div className="text-sm font-bold text-white font-mono">{formatTime(minutes)}</div>
+          </div>
+        ))}
+      </div>
+      <div className="space-y-1.5">
+        {windows.map((w) => {
+          const flagged = w.runs.length > 0;
+          return (
+            <div
+              key={w.label}
+              className={`rounded-lg px-3 py-2 text-xs ${
+                flagged ? "bg-amber-400/15 border border-amber-400/40" : "bg-white/5"
+              }`}
+            >
+              <div className="flex items-center gap-2">
+                <span className={`font-semibold ${flagged ? "text-amber-300" : "text-white/70"}`}>
+                  {flagged && "★ "}
+                  {w.label}
+                </span>
+                <span className="font-mono text-white/60">
+                  {minutesToTime(w.start)}〜{minutesToTime(w.end)}
+                </span>
+              </div>
+              {flagged ? (
+                <ul className="mt-1 text-white/70">
+                  {w.runs.map((run) => (
+                    <li key={run.start}>
+                      {run.direction.slice(0, 2)}・{run.strength}の潮と重なる{" "}
+                      <span className="font-mono text-white/50">
+                        {minutesToTime(run.start)}〜{minutesToTime(run.end)}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="mt-1 text-white/40">潮の動きは弱めです</p>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
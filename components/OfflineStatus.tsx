@@ -0,0 +1,53 @@
+"use client";
+
+import { OFFLINE_DAYS, OfflinePrefetch } from "@/lib/tide-offline";
+
+// Where the shown tide data came from when the network could not be used:
+// a day stored on the device (savedAt) or, without one, the local harmonic prediction
+export type OfflineData = { savedAt: number | null };
+
+interface Props {
+  online: boolean;
+  offlineData: OfflineData | null;
+  prefetch: OfflinePrefetch | null;
+}
+
+function formatSavedAt(savedAt: number) {
+  return new Date(savedAt).toLocaleString("ja-JP", {
+    month: "numeric",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+function formatThrough(date: string) {
+  const [, mn, dy] = date.split("-").map(Number);
+  return `${mn}/${dy}`;
+}
+
+// Banner shown while offline or while the tide data comes from the device
+export default function OfflineStatus({ online, offlineData, prefetch }: Props) {
+  if (online && !offlineData) return null;
+
+  return (
+    <div className="bg-amber-500/15 border-b border-amber-400/30 px-4 py-2 text-xs text-amber-200">
+      <p className="font-semibold">
+        {online ? "サーバーに接続できません" : "オフライン"}
+        {offlineData && (
+          <span className="font-normal text-amber-200/80">
+            {" ・ "}
+            {offlineData.savedAt !== null
+              ? `${formatSavedAt(offlineData.savedAt)} に保存した潮汐データを表示中`
+              : "保存データがないため端末で計算した推算値を表示中"}
+          </span>
+        )}
+      </p>
+      <p className="text-[10px] text-amber-200/60">
+        {prefetch
+          ? `保存済み: ${formatThrough(prefetch.through)}まで（最終更新 ${formatSavedAt(prefetch.savedAt)}）`
+          : `潮汐データはまだ保存されていません。接続中に開くと今後${OFFLINE_DAYS}日分を保存します`}
+      </p>
+    </div>
+  );
+}
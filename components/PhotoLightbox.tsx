@@ -0,0 +1,81 @@
+"use client";
+
+import { useEffect } from "react";
+
+interface Props {
+  urls: string[];
+  index: number;
+  onIndexChange: (index: number) => void;
+  onClose: () => void;
+}
+
+export default function PhotoLightbox({ urls, index, onIndexChange, onClose }: Props) {
+  const count = urls.length;
+  const prev = () => onIndexChange((index - 1 + count) % count);
+  const next = () => onIndexChange((index + 1) % count);
+
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+      else if (e.key === "ArrowLeft") onIndexChange((index - 1 + count) % count);
+      else if (e.key === "ArrowRight") onIndexChange((index + 1) % count);
+    };
+    window.addEventListener("keydown", handleKey);
+    // Keep the page behind from scrolling while the overlay is open
+    const overflow = document.body.style.overflow;
+    document.body.style.overflow = "hidden";
+    return () => {
+      window.removeEventListener("keydown", handleKey);
+      document.body.style.overflow = overflow;
+    };
+  }, [index, count, onClose, onIndexChange]);
+
+  return (
+    <div
+      role="dialog"
+      aria-modal="true"
+      onClick={onClose}
+      className="fixed inset-0 z-[2000] bg-black/90 flex items-center justify-center"
+    >
+      {urls[index] ? (
+        <img
+          src={urls[index]}
+          alt={`写真 ${index + 1}`}
+          onClick={(e) => e.stopPropagation()}
+          className="max-w-full max-h-full object-contain"
+        />
+      ) : (
+        <p className="text-sm text-white/70">読み込み中...</p>
+      )}
+
+      <button
+        onClick={onClose}
+        aria-label="閉じる"
+        className="absolute top-3 right-3 w-10 h-10 rounded-full bg-white/10 text-white text-xl hover:bg-white/20"
+      >
+        ×
+      </button>
+      {count > 1 && (
+        <>
+          <button
+            onClick={(e) => { e.stopPropagation(); prev(); }}
+            aria-label="前の写真"
+            className="absolute left-2 top-1/2 -translate-y-1/2 w-10 h-10 rounded-full bg-white/10 text-white text-xl hover:bg-white/20"
+          >
+            ‹
+          </button>
+          <button
+            onClick={(e) => { e.stopPropagation(); next(); }}
+            aria-label="次の写真"
+            className="absolute right-2 top-1/2 -translate-y-1/2 w-10 h-10 rounded-full bg-white/10 text-white text-xl hover:bg-white/20"
+          >
+            ›
+          </button>
+          <span className="absolute bottom-4 left-1/2 -translate-x-1/2 text-xs text-white/80">
+            {index + 1} / {count}
+          </span>
+        </>
+      )}
+    </div>
+  );
+}
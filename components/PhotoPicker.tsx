@@ -0,0 +1,100 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { MAX_PHOTOS_PER_RECORD, preparePhoto, PreparedPhoto, RecordPhoto } from "@/lib/photos";
+import { usePhotoUrls } from "@/lib/photo-storage";
+
+interface Props {
+  // Photos already saved on the record being edited
+  existing: RecordPhoto[];
+  onRemoveExisting: (photo: RecordPhoto) => void;
+  // Photos picked in this form, processed but not uploaded
+  added: PreparedPhoto[];
+  onAdd: (photos: PreparedPhoto[]) => void;
+  onRemoveAdded: (id: string) => void;
+}
+
+export default function PhotoPicker({ existing, onRemoveExisting, added, onAdd, onRemoveAdded }: Props) {
+  const [processing, setProcessing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const existingUrls = usePhotoUrls(existing.map((p) => p.thumbPath));
+
+  const addedUrls = useMemo(
+    () => Object.fromEntries(added.map((p) => [p.id, URL.createObjectURL(p.thumb)])),
+    [added]
+  );
+  useEffect(() => () => Object.values(addedUrls).forEach((url) => URL.revokeObjectURL(url)), [addedUrls]);
+
+  const remaining = MAX_PHOTOS_PER_RECORD - existing.length - added.length;
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+    setError(null);
+    setProcessing(true);
+    const prepared: PreparedPhoto[] = [];
+    try {
+      for (const file of Array.from(files).slice(0, remaining)) {
+        prepared.push(await preparePhoto(file));
+      }
+      if (files.length > remaining) setError(`写真は1件につき${MAX_PHOTOS_PER_RECORD}枚までです`);
+    } catch (e) {
+      setError((e as Error).message);
+    } finally {
+      if (prepared.length > 0) onAdd(prepared);
+      setProcessing(false);
+    }
+  };
+
+  const thumbClass = "relative w-16 h-16 shrink-0 rounded-md overflow-hidden bg-slate-100";
+  const removeClass =
+    "absolute top-0.5 right-0.5 w-5 h-5 rounded-full bg-black/60 text-white text-xs leading-5 text-center";
+
+  return (
+    <div>
+      <label className="block text-xs font-medium text-slate-600 mb-1">写真</label>
+      <div className="flex flex-wrap gap-1.5">
+        {existing.map((photo) => (
+          <div key={photo.path} className={thumbClass}>
+            {existingUrls[photo.thumbPath] && (
+              <img src={existingUrls[photo.thumbPath]} alt="" className="w-full h-full object-cover" />
+            )}
+            <button type="button" onClick={() => onRemoveExisting(photo)} aria-label="写真を外す" className={removeClass}>
+              ×
+            </button>
+          </div>
+        ))}
+        {added.map((photo) => (
+          <div key={photo.id} className={thumbClass}>
+            <img src={addedUrls[photo.id]} alt="" className="w-full h-full object-cover" />
+            <button type="button" onClick={() => onRemoveAdded(photo.id)} aria-label="写真を外す" className={removeClass}>
+              ×
+            </button>
+          </div>
+        ))}
+        {remaining > 0 && (
+          <label
+            className={`w-16 h-16 shrink-0 rounded-md border-2 border-dashed border-slate-300 flex items-center justify-center text-xs text-slate-500 cursor-pointer hover:bg-slate-50 ${
+              processing ? "opacity-50 pointer-events-none" : ""
+            }`}
+          >
+            {processing ? "処理中" : "+ 追加"}
+            <input
+              type="file"
+              accept="image/*"
+              multiple
+              className="hidden"
+              onChange={(e) => {
+                handleFiles(e.target.files);
+                e.target.value = "";
+              }}
+            />
+          </label>
+        )}
+      </div>
+      <p className="text-[10px] text-slate-400 mt-1">
+        端末上で縮小し、位置情報などのEXIFを削除してから保存します
+      </p>
+      {error && <p className="text-xs text-red-600 mt-1">{error}</p>}
+    </div>
+  );
+}
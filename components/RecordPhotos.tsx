@@ -0,0 +1,47 @@
+"use client";
+
+import { useState } from "react";
+import type { RecordPhoto } from "@/lib/photos";
+import { usePhotoUrls } from "@/lib/photo-storage";
+import PhotoLightbox from "@/components/PhotoLightbox";
+
+// Thumbnail strip for a saved record; tapping a thumbnail opens the full-size lightbox
+export default function RecordPhotos({ photos }: { photos: RecordPhoto[] }) {
+  const [openIndex, setOpenIndex] = useState<number | null>(null);
+  const thumbUrls = usePhotoUrls(photos.map((p) => p.thumbPath));
+  // Full-size URLs are only resolved once the lightbox is opened
+  const fullUrls = usePhotoUrls(openIndex === null ? [] : photos.map((p) => p.path));
+
+  if (photos.length === 0) return null;
+
+  return (
+    <>
+      <div className="flex gap-1.5 mt-2 overflow-x-auto">
+        {photos.map((photo, i) => (
+          <button
+            key={photo.path}
+            onClick={() => setOpenIndex(i)}
+            className="w-16 h-16 shrink-0 rounded-md overflow-hidden bg-slate-100"
+          >
+            {thumbUrls[photo.thumbPath] && (
+              <img
+                src={thumbUrls[photo.thumbPath]}
+                alt={`写真 ${i + 1}`}
+                loading="lazy"
+                className="w-full h-full object-cover"
+              />
+            )}
+          </button>
+        ))}
+      </div>
+      {openIndex !== null && (
+        <PhotoLightbox
+          urls={photos.map((p) => fullUrls[p.path] ?? "")}
+          index={openIndex}
+          onIndexChange={setOpenIndex}
+          onClose={() => setOpenIndex(null)}
+        />
+      )}
+    </>
+  );
+}
@@ -0,0 +1,292 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { getSupabase, FishingSpot } from "@/lib/supabase";
+import { EMPTY_FILTERS, fetchAllRecords, insertRecords, RecordFilters } from "@/lib/fishing-records";
+import {
+  ColumnMapping,
+  decodeCsv,
+  downloadFile,
+  duplicateKey,
+  guessMapping,
+  IMPORT_FIELDS,
+  ImportFieldKey,
+  parseCsv,
+  recordsToCsv,
+  recordsToJson,
+  validateRows,
+  withTideContext,
+} from "@/lib/record-csv";
+import type { PortId } from "@/lib/ports";
+
+interface Props {
+  userId: string;
+  portId: PortId;
+  filters: RecordFilters;
+  spots: FishingSpot[];
+  onImported: () => void;
+}
+
+type ParsedFile = {
+  name: string;
+  headers: string[];
+  rows: string[][];
+};
+
+const PREVIEW_ROWS = 30;
+
+function stamp() {
+  return new Date().toISOString().slice(0, 10).replace(/-/g, "");
+}
+
+// Export of the filtered records and CSV import, shown under the 釣果記録 header
+export default function RecordTransfer({ userId, portId, filters, spots, onImported }: Props) {
+  const [exporting, setExporting] = useState(false);
+  const [exportMessage, setExportMessage] = useState<string | null>(null);
+
+  const [file, setFile] = useState<ParsedFile | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [existingKeys, setExistingKeys] = useState<Set<string>>(new Set());
+  const [includeDuplicates, setIncludeDuplicates] = useState(false);
+  const [shareAll, setShareAll] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [importMessage, setImportMessage] = useState<string | null>(null);
+
+  const handleExport = async (format: "csv" | "json") => {
+    const client = getSupabase();
+    if (!client) return;
+    setExporting(true);
+    setExportMessage(null);
+    try {
+      const records = await fetchAllRecords(client, filters);
+      if (format === "csv") {
+        downloadFile(`fishing-records-${stamp()}.csv`, recordsToCsv(records, spots), "text/csv;charset=utf-8");
+      } else {
+        downloadFile(`fishing-records-${stamp()}.json`, recordsToJson(records, spots), "application/json");
+      }
+      setExportMessage(`${records.length}件を書き出しました`);
+    } catch (error) {
+      setExportMessage("書き出しに失敗しました: " + (error as { message?: string }).message);
+    }
+    setExporting(false);
+  };
+
+  const handleFile = async (selected: File | undefined) => {
+    setImportMessage(null);
+    setFile(null);
+    setMapping(null);
+    if (!selected) return;
+    const client = getSupabase();
+    if (!client) return;
+
+    const [header, ...rows] = parseCsv(decodeCsv(await selected.arrayBuffer()));
+    if (!header || rows.length === 0) {
+      setImportMessage("データ行が見つかりません");
+      return;
+    }
+    try {
+      // Duplicates are checked against the angler's own records only
+      const own = await fetchAllRecords(client, EMPTY_FILTERS, userId);
+      setExistingKeys(new Set(own.map(duplicateKey)));
+    } catch (error) {
+      setImportMessage("既存の記録を取得できませんでした: " + (error as { message?: string }).message);
+      return;
+    }
+    setFile({ name: selected.name, headers: header.map((h) => h.trim()), rows });
+    setMapping(guessMapping(header));
+  };
+
+  const validated = useMemo(
+    () => (file && mapping ? validateRows(file.rows, mapping, spots, existingKeys) : []),
+    [file, mapping, spots, existingKeys]
+  );
+  const importable = validated.filter((r) => r.record && (includeDuplicates || !r.duplicate));
+  const errorCount = validated.filter((r) => !r.record).length;
+  const duplicateCount = validated.filter((r) => r.record && r.duplicate).length;
+
+  const handleImport = async () => {
+    const client = getSupabase();
+    if (!client || importable.length === 0) return;
+    if (!confirm(`${importable.length}件の記録を取り込みますか？`)) return;
+    setImporting(true);
+    setProgress(0);
+    const rows = importable.map((r) => {
+      const record = withTideContext(r.record!, portId);
+      return { ...record, user_id: userId, shared: record.shared ?? shareAll };
+    });
+    let done = 0;
+    try {
+      await insertRecords(client, rows, (n) => {
+        done = n;
+        setProgress(n);
+      });
+      setImportMessage(`${rows.length}件を取り込みました`);
+      setFile(null);
+      setMapping(null);
+      onImported();
+    } catch (error) {
+      setImportMessage(
+        `取り込みに失敗しました（${done}件まで完了）: ` + (error as { message?: string }).message
+      );
+    }
+    setImporting(false);
+  };
+
+  const updateMapping = (key: ImportFieldKey, value: string) => {
+    setMapping((prev) => (prev ? { ...prev, [key]: value === "" ? null : Number(value) } : prev));
+  };
+
+  const selectClass =
+    "w-full border border-slate-300 rounded-lg px-2 py-1.5 text-xs text-slate-700 focus:ring-2 focus:ring-blue-500 outline-none";
+
+  return (
+    <div className="mb-4 space-y-4 bg-slate-50 border border-slate-200 rounded-lg p-3">
+      <div>
+        <p className="text-xs font-semibold text-slate-600 mb-2">書き出し（現在の絞り込み条件の記録）</p>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => handleExport("csv")}
+            disabled={exporting}
+            className="px-3 py-1.5 rounded-lg text-xs font-medium bg-white border border-slate-300 text-slate-700 hover:bg-slate-100 disabled:opacity-50"
+          >
+            CSV
+          </button>
+          <button
+            onClick={() => handleExport("json")}
+            disabled={exporting}
+            className="px-3 py-1.5 rounded-lg text-xs font-medium bg-white border border-slate-300 text-slate-700 hover:bg-slate-100 disabled:opacity-50"
+          >
+            JSON
+          </button>
+          {exporting && <span className="text-xs text-slate-500">書き出し中...</span>}
+          {exportMessage && !exporting && <span className="text-xs text-slate-500">{exportMessage}</span>}
+        </div>
+      </div>
+
+      <div>
+        <p className="text-xs font-semibold text-slate-600 mb-2">CSVから取り込み</p>
+        <input
+          type="file"
+          accept=".csv,.tsv,.txt,text/csv"
+          onChange={(e) => handleFile(e.target.files?.[0])}
+          className="block w-full text-xs text-slate-600 file:mr-3 file:px-3 file:py-1.5 file:rounded-lg file:border-0 file:bg-blue-600 file:text-white file:text-xs"
+        />
+        <p className="text-[10px] text-slate-400 mt-1">
+          UTF-8 / Shift_JIS のCSV・TSVに対応。1行目は見出し行にしてください。
+          時刻があり潮汐情報の列がない記録は、選択中の港の推算値で潮流などを補完します。
+        </p>
+        {importMessage && <p className="text-xs text-slate-600 mt-2">{importMessage}</p>}
+      </div>
+
+      {file && mapping && (
+        <>
+          <div>
+            <p className="text-xs font-semibold text-slate-600 mb-2">
+              列の対応（{file.name}、{file.rows.length}行）
+            </p>
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+              {IMPORT_FIELDS.map((field) => (
+                <label key={field.key} className="block">
+                  <span className="block text-[10px] text-slate-500 mb-0.5">
+                    {field.label}
+                    {field.key === "date" && " *"}
+                  </span>
+                  <select
+                    value={mapping[field.key] ?? ""}
+                    onChange={(e) => updateMapping(field.key, e.target.value)}
+                    className={selectClass}
+                  >
+                    <option value="">（なし）</option>
+                    {file.headers.map((h, i) => (
+                      <option key={i} value={i}>{h || `列${i + 1}`}</option>
+                    ))}
+                  </select>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <p className="text-xs text-slate-600 mb-2">
+              取り込み可能 <span className="font-semibold">{importable.length}件</span> ・ 重複{" "}
+              <span className="font-semibold text-amber-700">{duplicateCount}件</span> ・ エラー{" "}
+              <span className="font-semibold text-red-700">{errorCount}件</span>
+            </p>
+            <div className="max-h-72 overflow-auto border border-slate-200 rounded-lg bg-white">
+              <table className="w-full text-[11px]">
+                <thead className="bg-slate-100 text-slate-500 sticky top-0">
+                  <tr>
+                    <th className="px-2 py-1 text-left font-medium">行</th>
+                    <th className="px-2 py-1 text-left font-medium">日付</th>
+                    <th className="px-2 py-1 text-left font-medium">時刻</th>
+                    <th className="px-2 py-1 text-left font-medium">魚種</th>
+                    <th className="px-2 py-1 text-right font-medium">数</th>
+                    <th className="px-2 py-1 text-left font-medium">状態</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {validated.slice(0, PREVIEW_ROWS).map((row) => (
+                    <tr key={row.line} className="border-t border-slate-100 align-top">
+                      <td className="px-2 py-1 text-slate-400">{row.line}</td>
+                      <td className="px-2 py-1 text-slate-700">{row.record?.date ?? "-"}</td>
+                      <td className="px-2 py-1 text-slate-700">{row.record?.time ?? ""}</td>
+                      <td className="px-2 py-1 text-slate-700">{row.record?.fish_type ?? ""}</td>
+                      <td className="px-2 py-1 text-right text-slate-700">{row.record?.fish_count ?? ""}</td>
+                      <td className="px-2 py-1">
+                        {!row.record ? (
+                          <span className="text-red-700">{row.errors.join(" / ")}</span>
+                        ) : row.duplicate ? (
+                          <span className="text-amber-700">重複</span>
+                        ) : (
+                          <span className="text-green-700">OK</span>
+                        )}
+                        {row.warnings.length > 0 && (
+                          <span className="block text-slate-500">{row.warnings.join(" / ")}</span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            {validated.length > PREVIEW_ROWS && (
+              <p className="text-[10px] text-slate-400 mt-1">先頭{PREVIEW_ROWS}行を表示しています</p>
+            )}
+          </div>
+
+          <div className="space-y-1">
+            <label className="flex items-center gap-2 text-xs text-slate-600">
+              <input
+                type="checkbox"
+                checked={includeDuplicates}
+                onChange={(e) => setIncludeDuplicates(e.target.checked)}
+                className="rounded border-slate-300"
+              />
+              重複している行も取り込む（同じ日付・時刻・魚種・釣果数の記録）
+            </label>
+            {mapping.shared === null && (
+              <label className="flex items-center gap-2 text-xs text-slate-600">
+                <input
+                  type="checkbox"
+                  checked={shareAll}
+                  onChange={(e) => setShareAll(e.target.checked)}
+                  className="rounded border-slate-300"
+                />
+                取り込んだ記録をチームに共有する
+              </label>
+            )}
+          </div>
+
+          <button
+            onClick={handleImport}
+            disabled={importing || importable.length === 0}
+            className="w-full bg-green-600 text-white py-2.5 rounded-lg text-sm font-medium hover:bg-green-700 transition-colors disabled:opacity-50"
+          >
+            {importing ? `取り込み中... ${progress}/${importable.length}` : `${importable.length}件を取り込む`}
+          </button>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,75 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { getSupabase, FishingSpot } from "@/lib/supabase";
+import { useSession } from "@/lib/auth";
+import { describePreference, fetchSpots, isPreferredFlow, SpotMarker } from "@/lib/fishing-spots";
+import type { CurrentFlow } from "@/lib/tide-utils";
+
+interface Props {
+  flow: CurrentFlow | null;
+  // Label for the time the flow applies to, e.g. "現在" or "14:30頃"
+  timeLabel: string;
+  onChange: (markers: SpotMarker[]) => void;
+}
+
+// Saved spots, with the ones whose preferred flow matches the shown flow first
+export default function SpotFlowPanel({ flow, timeLabel, onChange }: Props) {
+  const { session } = useSession();
+  const userId = session?.user.id ?? null;
+  const [spots, setSpots] = useState<FishingSpot[]>([]);
+
+  useEffect(() => {
+    const client = getSupabase();
+    if (!client || !userId) {
+      setSpots([]);
+      return;
+    }
+    fetchSpots(client)
+      .then(setSpots)
+      .catch((error) => console.error("Supabase error:", error));
+  }, [userId]);
+
+  const markers = useMemo(
+    () =>
+      spots
+        .map((spot) => ({ spot, active: flow ? isPreferredFlow(spot, flow) : false }))
+        .sort((a, b) => Number(b.active) - Number(a.active)),
+    [spots, flow]
+  );
+
+  useEffect(() => {
+    onChange(markers);
+  }, [markers, onChange]);
+
+  if (spots.length === 0) return null;
+
+  const activeCount = markers.filter((m) => m.active).length;
+
+  return (
+    <div className="bg-white/5 backdrop-blur rounded-xl border border-white/10 p-4">
+      <h2 className="text-sm font-semibold text-white/80 mb-1">ポイントの潮</h2>
+      <p className="text-[10px] text-white/40 mb-3">
+        {activeCount > 0
+          ? `${timeLabel}の潮流が好条件のポイント: ${activeCount}件`
+          : `${timeLabel}の潮流が好条件のポイントはありません`}
+      </p>
+      <div className="space-y-1.5">
+        {markers.map(({ spot, active }) => (
+          <div
+            key={spot.id}
+            className={`flex items-center justify-between rounded-lg px-3 py-2 text-sm ${
+              active ? "bg-green-500/15 border border-green-500/40" : "bg-white/5"
+            }`}
+          >
+            <span className={active ? "text-white font-semibold" : "text-white/60"}>{spot.name}</span>
+            <span className={`text-[10px] ${active ? "text-green-300" : "text-white/40"}`}>
+              {active ? "好条件 " : ""}
+              {describePreference(spot)}
+            </span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,256 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { estimatePeakFlow, TideEvent, CurrentFlow } from "@/lib/tide-utils";
+import { fetchTide } from "@/lib/tide-api";
+import type { MoonInfo, TideName } from "@/lib/moon";
+import type { PortId } from "@/lib/ports";
+
+type CalendarRange = "week" | "month";
+
+type CalendarDay = {
+  date: string;
+  tideName: TideName;
+  moon: Omit<MoonInfo, "tideName">;
+  events: TideEvent[];
+  peakStrength: CurrentFlow["strength"];
+  peakSpeedKnots: number;
+};
+
+interface Props {
+  portId: PortId;
+  initialDate: Date;
+  onSelectDate: (date: Date) => void;
+}
+
+const WEEKDAYS = ["日", "月", "火", "水", "木", "金", "土"];
+
+const TIDE_NAME_STYLE: Record<TideName, string> = {
+  大潮: "bg-red-500/20 text-red-300",
+  中潮: "bg-orange-500/20 text-orange-300",
+  小潮: "bg-blue-500/20 text-blue-300",
+  長潮: "bg-slate-500/30 text-slate-300",
+  若潮: "bg-emerald-500/20 text-emerald-300",
+};
+
+const STRENGTH_STYLE: Record<CurrentFlow["strength"], string> = {
+  強: "text-yellow-300 font-bold",
+  中: "text-blue-300",
+  弱: "text-white/50",
+};
+
+function toDateKey(date: Date) {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+}
+
+export default function TideCalendar({ portId, initialDate, onSelectDate }: Props) {
+  const [range, setRange] = useState<CalendarRange>("month");
+  const [anchor, setAnchor] = useState(() => new Date(initialDate));
+  const [days, setDays] = useState<CalendarDay[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  // Subscription URL without the scheme; needs window, so it is filled in after mount
+  const [feedUrl, setFeedUrl] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    setFeedUrl(`${window.location.host}/api/tide/calendar.ics?port=${portId}`);
+    setCopied(false);
+  }, [portId]);
+
+  const copyFeedUrl = async () => {
+    if (!feedUrl) return;
+    try {
+      await navigator.clipboard.writeText(`${window.location.protocol}//${feedUrl}`);
+      setCopied(true);
+    } catch {
+      prompt("カレンダーの購読URL", `${window.location.protocol}//${feedUrl}`);
+    }
+  };
+
+  const fetchRange = useCallback(async (start: Date, rg: CalendarRange, port: PortId) => {
+    setLoading(true);
+    setError(null);
+    const first = rg === "month" ? new Date(start.getFullYear(), start.getMonth(), 1) : start;
+    try {
+      const data = await fetchTide({ port, date: toDateKey(first), range: rg });
+      setDays(
+        data.days.map((day) => {
+          const peak = estimatePeakFlow(day.events);
+          return {
+            date: day.date,
+            tideName: day.tideName,
+            moon: day.moon,
+            events: day.events,
+            peakStrength: peak.strength,
+            peakSpeedKnots: peak.speedKnots,
+          };
+        })
+      );
+    } catch (e) {
+      console.error("Tide API error:", e);
+      setError("潮汐データの取得に失敗しました。");
+      setDays([]);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchRange(anchor, range, portId);
+  }, [anchor, range, portId, fetchRange]);
+
+  const move = (offset: number) => {
+    const d = new Date(anchor);
+    if (range === "month") {
+      d.setDate(1);
+      d.setMonth(d.getMonth() + offset);
+    } else {
+      d.setDate(d.getDate() + offset * 7);
+    }
+    setAnchor(d);
+  };
+
+  const todayKey = toDateKey(new Date());
+  // Blank cells so the month grid starts on the right weekday
+  const leadingBlanks =
+    range === "month" && days.length > 0
+      ? new Date(`${days[0].date}T00:00:00`).getDay()
+      : 0;
+
+  const title =
+    range === "month"
+      ? `${anchor.getFullYear()}年${anchor.getMonth() + 1}月`
+      : days.length > 0
+      ? `${days[0].date.slice(5).replace("-", "/")} 〜 ${days[days.length - 1].date.slice(5).replace("-", "/")}`
+      : "";
+
+  return (
+    <div className="px-4 pb-6 pt-4 max-w-3xl mx-auto">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex gap-1">
+          {(["week", "month"] as const).map((r) => (
+            <button
+              key={r}
+              onClick={() => setRange(r)}
+              className={`px-3 py-1.5 rounded-md text-xs transition-colors ${
+                range === r ? "bg-blue-500 text-white" : "bg-white/10 text-white/70 hover:bg-white/20"
+              }`}
+            >
+              {r === "week" ? "週" : "月"}
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => move(-1)}
+            className="px-2 py-1.5 rounded-md bg-white/10 hover:bg-white/20 text-white text-xs sm:text-sm transition-colors"
+          >
+            ◀
+          </button>
+          <span className="text-sm font-semibold text-white/80 min-w-[7rem] text-center">{title}</span>
+          <button
+            onClick={() => move(1)}
+            className="px-2 py-1.5 rounded-md bg-white/10 hover:bg-white/20 text-white text-xs sm:text-sm transition-colors"
+          >
+            ▶
+          </button>
+        </div>
+      </div>
+
+      {feedUrl && (
+        <div className="flex justify-end items-center gap-3 mb-3 text-[11px]">
+          <a href={`webcal://${feedUrl}`} className="text-blue-300 hover:underline">
+            📅 カレンダーアプリで購読
+          </a>
+          <button onClick={copyFeedUrl} className="text-white/50 hover:text-white/80 transition-colors">
+            {copied ? "コピーしました" : "URLをコピー"}
+          </button>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center h-64">
+          <div className="w-10 h-10 border-4 border-blue-400 border-t-transparent rounded-full animate-spin" />
+        </div>
+      ) : error ? (
+        <div className="text-center py-16">
+          <p className="text-sm text-red-400">{error}</p>
+          <button
+            onClick={() => fetchRange(anchor, range, portId)}
+            className="mt-3 text-sm text-blue-400 underline"
+          >
+            再試行
+          </button>
+        </div>
+      ) : (
+        <div className={range === "month" ? "grid grid-cols-7 gap-1" : "space-y-1.5"}>
+          {range === "month" &&
+            WEEKDAYS.map((w, i) => (
+              <div
+                key={w}
+                className={`text-center text-[10px] pb-1 ${
+                  i === 0 ? "text-red-400/70" : i === 6 ? "text-blue-400/70" : "text-white/40"
+                }`}
+              >
+                {w}
+              </div>
+            ))}
+          {Array.from({ length: leadingBlanks }).map((_, i) => (
+            <div key={`blank-${i}`} />
+          ))}
+          {days.map((day) => {
+            const date = new Date(`${day.date}T00:00:00`);
+            const isToday = day.date === todayKey;
+            return (
+              <button
+                key={day.date}
+                onClick={() => onSelectDate(date)}
+                className={`text-left rounded-lg border p-1.5 sm:p-2 transition-colors hover:bg-white/10 ${
+                  isToday ? "border-blue-400/60 bg-blue-500/10" : "border-white/10 bg-white/5"
+                } ${range === "week" ? "flex items-center gap-3 w-full" : "min-h-[5.5rem]"}`}
+              >
+                <div className={range === "week" ? "w-16 shrink-0" : "flex items-center justify-between mb-1"}>
+                  <span className="text-xs font-bold text-white">
+                    {range === "week"
+                      ? `${date.getMonth() + 1}/${date.getDate()}(${WEEKDAYS[date.getDay()]})`
+                      : date.getDate()}
+                    <span
+                      className="ml-0.5 text-[9px] font-normal"
+                      title={`${day.moon.phase.name} 月齢${day.moon.age.toFixed(1)}`}
+                    >
+                      {day.moon.phase.icon}
+                    </span>
+                  </span>
+                  <span
+                    className={`text-[9px] px-1 rounded ${TIDE_NAME_STYLE[day.tideName]} ${
+                      range === "week" ? "ml-1" : ""
+                    }`}
+                  >
+                    {day.tideName}
+                  </span>
+                </div>
+                <div className={range === "week" ? "flex flex-wrap gap-x-3 flex-1" : "space-y-0.5"}>
+                  {day.events.map((e, i) => (
+                    <div key={i} className="text-[9px] sm:text-[10px] font-mono leading-tight">
+                      <span className={e.type === "high" ? "text-blue-400" : "text-orange-400"}>
+                        {e.type === "high" ? "満" : "干"}
+                      </span>{" "}
+                      <span className="text-white/70">{e.time}</span>
+                    </div>
+                  ))}
+                </div>
+                <div className={`text-[9px] sm:text-[10px] ${range === "week" ? "w-20 text-right" : "mt-1"}`}>
+                  <span className="text-white/40">最強 </span>
+                  <span className={STRENGTH_STYLE[day.peakStrength]}>
+                    {day.peakSpeedKnots.toFixed(1)}kt
+                  </span>
+                </div>
+              </button>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
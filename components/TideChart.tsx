@@ -0,0 +1,267 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import { fetchTide, TideDay } from "@/lib/tide-api";
+import { harmonicTideDay } from "@/lib/tide-day";
+import { curvePath, curvePoints, heightAt, monotoneCurve } from "@/lib/tide-curve";
+import { estimateCurrentFlow, minutesToTime } from "@/lib/tide-utils";
+import type { MazumeWindow } from "@/lib/mazume";
+import { getPort, PortId } from "@/lib/ports";
+
+type CompareMode = "none" | "prev" | "next";
+
+interface Props {
+  portId: PortId;
+  day: TideDay;
+  // Current time line, shown when the day is today
+  nowMinutes: number | null;
+  mazume: MazumeWindow[];
+}
+
+// Drawing area in viewBox units
+const WIDTH = 720;
+const HEIGHT = 240;
+const PAD = { top: 22, right: 10, bottom: 22, left: 36 };
+const PLOT_W = WIDTH - PAD.left - PAD.right;
+const PLOT_H = HEIGHT - PAD.top - PAD.bottom;
+
+const x = (minutes: number) => PAD.left + (minutes / 1440) * PLOT_W;
+
+function shiftDate(date: string, offset: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + offset);
+  return d.toISOString().split("T")[0];
+}
+
+function toMinutes(time: string): number {
+  const [h, m] = time.split(":").map(Number);
+  return h * 60 + m;
+}
+
+// Flow phases between slack waters: after a high the flow runs south, after a low north
+function flowPhases(day: TideDay) {
+  const events = day.events;
+  if (events.length === 0) return [];
+  const bounds = [0, ...events.map((e) => toMinutes(e.time)), 1440];
+  return bounds.slice(0, -1).map((start, i) => {
+    const south = i === 0 ? events[0].type === "low" : events[i - 1].type === "high";
+    return { start, end: bounds[i + 1], south };
+  });
+}
+
+// Tide curve with high/low annotations, flow phases, まずめ bands and a tooltip
+export default function TideChart({ portId, day, nowMinutes, mazume }: Props) {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [hover, setHover] = useState<number | null>(null);
+  const [mode, setMode] = useState<CompareMode>("none");
+  const [compareDay, setCompareDay] = useState<TideDay | null>(null);
+
+  useEffect(() => {
+    setHover(null);
+  }, [day]);
+
+  useEffect(() => {
+    if (mode === "none") {
+      setCompareDay(null);
+      return;
+    }
+    let cancelled = false;
+    const date = shiftDate(day.date, mode === "prev" ? -1 : 1);
+    fetchTide({ port: portId, date })
+      .then(({ days }) => days[0])
+      // Offline or unavailable: compare against the local prediction
+      .catch(() => harmonicTideDay(getPort(portId), date))
+      .then((other) => {
+        if (!cancelled) setCompareDay(other);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [mode, portId, day.date]);
+
+  const curve = useMemo(() => monotoneCurve(curvePoints(day)), [day]);
+  const compareCurve = useMemo(() => (compareDay ? monotoneCurve(curvePoints(compareDay)) : null), [compareDay]);
+  const phases = useMemo(() => flowPhases(day), [day]);
+
+  // Height axis with a little headroom for the annotations
+  const { y, ticks } = useMemo(() => {
+    const heights = [...curve.points, ...(compareCurve?.points ?? [])].map((p) => p.cm);
+    const min = Math.min(...heights);
+    const max = Math.max(...heights);
+    const step = max - min > 150 ? 50 : 20;
+    const lo = Math.floor((min - 10) / step) * step;
+    const hi = Math.ceil((max + 10) / step) * step;
+    const ticks: number[] = [];
+    for (let v = lo; v <= hi; v += step) ticks.push(v);
+    return { y: (cm: number) => PAD.top + ((hi - cm) / (hi - lo)) * PLOT_H, ticks };
+  }, [curve, compareCurve]);
+
+  if (curve.points.length < 2) {
+    return <p className="text-xs text-white/40">潮位データがありません</p>;
+  }
+
+  const pointerMinutes = (clientX: number) => {
+    const rect = svgRef.current?.getBoundingClientRect();
+    if (!rect) return null;
+    const svgX = ((clientX - rect.left) / rect.width) * WIDTH;
+    const minutes = ((svgX - PAD.left) / PLOT_W) * 1440;
+    return Math.round(Math.min(Math.max(minutes, 0), 1439));
+  };
+
+  const hoverCm = hover === null ? null : heightAt(curve, hover);
+  const hoverCompareCm = hover === null || !compareCurve ? null : heightAt(compareCurve, hover);
+  const hoverFlow = hover === null ? null : estimateCurrentFlow(day.events, hover);
+
+  return (
+    <div>
+      <div className="flex items-center gap-1 mb-2 text-[11px]">
+        <span className="text-white/40 mr-1">比較</span>
+        {([
+          ["none", "なし"],
+          ["prev", "前日"],
+          ["next", "翌日"],
+        ] as const).map(([key, label]) => (
+          <button
+            key={key}
+            onClick={() => setMode(key)}
+            className={`px-2 py-0.5 rounded-md transition-colors ${
+              mode === key ? "bg-blue-500 text-white" : "bg-white/10 text-white/60 hover:bg-white/20"
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      <div className="relative">
+        <svg
+          ref={svgRef}
+          viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+          className="w-full h-auto touch-pan-y select-none"
+          onPointerMove={(e) => setHover(pointerMinutes(e.clientX))}
+          onPointerDown={(e) => setHover(pointerMinutes(e.clientX))}
+          onPointerLeave={(e) => {
+            if (e.pointerType === "mouse") setHover(null);
+          }}
+        >
+          {/* Flow phases */}
+          {phases.map((p) => (
+            <rect
+              key={p.start}
+              x={x(p.start)}
+              y={PAD.top}
+              width={x(p.end) - x(p.start)}
+              height={PLOT_H}
+              className={p.south ? "fill-orange-500/10" : "fill-blue-500/10"}
+            />
+          ))}
+
+          {/* まずめ bands */}
+          {mazume.map((w) => (
+            <rect
+              key={w.label}
+              x={x(w.start)}
+              y={PAD.top}
+              width={x(w.end) - x(w.start)}
+              height={PLOT_H}
+              className={w.runs.length > 0 ? "fill-amber-300/25" : "fill-amber-200/10"}
+            />
+          ))}
+
+          {/* Axes */}
+          {ticks.map((v) => (
+            <g key={v}>
+              <line x1={PAD.left} x2={WIDTH - PAD.right} y1={y(v)} y2={y(v)} className="stroke-white/10" />
+              <text x={PAD.left - 4} y={y(v) + 3} textAnchor="end" className="fill-white/40 text-[10px]">
+                {v}
+              </text>
+            </g>
+          ))}
+          {[0, 3, 6, 9, 12, 15, 18, 21, 24].map((hour) => (
+            <text key={hour} x={x(hour * 60)} y={HEIGHT - 6} textAnchor="middle" className="fill-white/40 text-[10px]">
+              {hour}
+            </text>
+          ))}
+
+          {/* Curves */}
+          {compareCurve && (
+            <path d={curvePath(compareCurve, x, y)} fill="none" strokeDasharray="4 3" className="stroke-white/40" strokeWidth={1.5} />
+          )}
+          <path d={curvePath(curve, x, y)} fill="none" className="stroke-blue-400" strokeWidth={2.5} />
+
+          {/* High/low annotations */}
+          {day.events.map((e) => {
+            const cx = x(toMinutes(e.time));
+            const cy = y(e.height);
+            const high = e.type === "high";
+            return (
+              <g key={`${e.type}-${e.time}`}>
+                <circle cx={cx} cy={cy} r={3.5} className={high ? "fill-blue-300" : "fill-orange-300"} />
+                <text
+                  x={cx}
+                  y={high ? cy - 8 : cy + 15}
+                  textAnchor="middle"
+                  className={`text-[10px] font-semibold ${high ? "fill-blue-300" : "fill-orange-300"}`}
+                >
+                  {high ? "満" : "干"} {e.time} {e.height}cm
+                </text>
+              </g>
+            );
+          })}
+
+          {/* Current time */}
+          {nowMinutes !== null && (
+            <line x1={x(nowMinutes)} x2={x(nowMinutes)} y1={PAD.top} y2={PAD.top + PLOT_H} className="stroke-red-400" strokeWidth={1.5} />
+          )}
+
+          {/* Hover guide */}
+          {hover !== null && (
+            <g>
+              <line x1={x(hover)} x2={x(hover)} y1={PAD.top} y2={PAD.top + PLOT_H} className="stroke-white/60" strokeDasharray="2 2" />
+              {hoverCm !== null && <circle cx={x(hover)} cy={y(hoverCm)} r={4} className="fill-white" />}
+            </g>
+          )}
+        </svg>
+
+        {hover !== null && hoverFlow && (
+          <div
+            className="absolute top-1 pointer-events-none bg-slate-800/95 border border-white/20 rounded-md px-2 py-1 text-[11px] text-white/80 whitespace-nowrap"
+            style={
+              hover < 720
+                ? { left: `${(x(hover) / WIDTH) * 100}%`, marginLeft: 8 }
+                : { right: `${100 - (x(hover) / WIDTH) * 100}%`, marginRight: 8 }
+            }
+          >
+            <div className="font-mono font-semibold text-white">{minutesToTime(hover)}</div>
+            {hoverCm !== null && <div>潮位 {Math.round(hoverCm)}cm</div>}
+            {hoverCompareCm !== null && (
+              <div className="text-white/50">
+                {mode === "prev" ? "前日" : "翌日"} {Math.round(hoverCompareCm)}cm
+              </div>
+            )}
+            <div>
+              {hoverFlow.direction === "転流" ? "転流" : hoverFlow.direction.slice(0, 2)}・{hoverFlow.strength}{" "}
+              {hoverFlow.speedKnots.toFixed(1)}kt
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-x-3 gap-y-1 mt-2 text-[10px] text-white/40">
+        <span><span className="inline-block w-2 h-2 mr-1 rounded-sm bg-orange-500/40" />南流</span>
+        <span><span className="inline-block w-2 h-2 mr-1 rounded-sm bg-blue-500/40" />北流</span>
+        <span>
+          <span className="inline-block w-2 h-2 mr-1 rounded-sm bg-amber-300/40 border border-amber-300" />
+          朝まずめ・夕まずめ（濃い帯は中・強の潮と重なる）
+        </span>
+        {nowMinutes !== null && <span><span className="inline-block w-2 h-0.5 mr-1 align-middle bg-red-400" />現在</span>}
+        {compareDay && (
+          <span>
+            <span className="inline-block w-3 mr-1 align-middle border-t border-dashed border-white/40" />
+            {mode === "prev" ? "前日" : "翌日"}（{compareDay.date.slice(5).replace("-", "/")}）
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,163 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { compassName, fetchWeather, WeatherApiError, WeatherResponse } from "@/lib/weather";
+import {
+  DEFAULT_WIND_THRESHOLD_MS,
+  WIND_THRESHOLD_OPTIONS,
+  windTideHours,
+  windTideWarnings,
+} from "@/lib/wind-tide";
+import type { TideEvent } from "@/lib/tide-utils";
+import type { PortId } from "@/lib/ports";
+
+const THRESHOLD_STORAGE_KEY = "akashi-tide:wind-threshold";
+
+interface Props {
+  portId: PortId;
+  portName: string;
+  date: string; // YYYY-MM-DD
+  events: TideEvent[];
+  // Highlighted column, when the date is today
+  nowHour: number | null;
+}
+
+function errorMessage(error: unknown): string {
+  if (error instanceof WeatherApiError) {
+    if (error.code === "not_configured") return "気象データの取得先が設定されていません（WEATHER_PROVIDER）";
+    if (error.code === "not_found") return "この日の気象データはありません";
+    if (error.code === "network_error") return "オフラインのため気象データを取得できません";
+  }
+  return "気象データの取得に失敗しました";
+}
+
+// Hourly wind next to the flow, with warnings where the wind opposes the current
+export default function WindTidePanel({ portId, portName, date, events, nowHour }: Props) {
+  const [weather, setWeather] = useState<WeatherResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [threshold, setThreshold] = useState<number>(DEFAULT_WIND_THRESHOLD_MS);
+
+  useEffect(() => {
+    const saved = Number(localStorage.getItem(THRESHOLD_STORAGE_KEY));
+    if ((WIND_THRESHOLD_OPTIONS as readonly number[]).includes(saved)) setThreshold(saved);
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    setWeather(null);
+    setError(null);
+    fetchWeather({ port: portId, date })
+      .then((res) => {
+        if (!cancelled) setWeather(res);
+      })
+      .catch((e) => {
+        if (!cancelled) setError(errorMessage(e));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [portId, date]);
+
+  const hours = useMemo(
+    () => (weather ? windTideHours(weather.hourly, events, threshold) : []),
+    [weather, events, threshold]
+  );
+  const warnings = useMemo(() => windTideWarnings(hours), [hours]);
+
+  const handleThreshold = (value: number) => {
+    setThreshold(value);
+    localStorage.setItem(THRESHOLD_STORAGE_KEY, String(value));
+  };
+
+  return (
+    <div className="bg-white/5 backdrop-blur rounded-xl border border-white/10 p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h2 className="text-sm font-semibold text-white/80">風と潮（{portName}）</h2>
+        <label className="flex items-center gap-1 text-[11px] text-white/50">
+          逆風
+          <select
+            value={threshold}
+            onChange={(e) => handleThreshold(Number(e.target.value))}
+            className="bg-white/10 border border-white/20 rounded-md px-1.5 py-0.5 text-xs text-white outline-none [&>option]:text-slate-800"
+          >
+            {WIND_THRESHOLD_OPTIONS.map((v) => (
+              <option key={v} value={v}>{v}</option>
+            ))}
+          </select>
+          m/s以上で警告
+        </label>
+      </div>
+
+      {error ? (
+        <p className="text-xs text-white/40">{error}</p>
+      ) : !weather ? (
+        <p className="text-xs text-white/40">気象データ取得中...</p>
+      ) : (
+        <>
+          {warnings.length > 0 ? (
+            <div className="space-y-1.5 mb-3">
+              {warnings.map((w) => (
+                <div
+                  key={w.startHour}
+                  className={`rounded-lg px-3 py-2 text-xs ${
+                    w.level === "danger"
+                      ? "bg-red-500/20 border border-red-400/50 text-red-200"
+                      : "bg-amber-400/15 border border-amber-400/40 text-amber-200"
+                  }`}
+                >
+                  <p className="font-semibold">
+                    ⚠ {w.level === "danger" ? "危険" : "注意"} {w.startHour}時〜{w.endHour + 1}時
+                  </p>
+                  <p>
+                    {w.direction === "北流（上げ潮）" ? "西寄りの風" : "東寄りの風"}が{w.direction.slice(0, 2)}に逆らい、
+                    三角波が立ちやすい状態です（逆風成分 最大{w.maxOpposingMs.toFixed(1)}m/s）
+                  </p>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-xs text-white/50 mb-3">潮に逆らう強い風の予報はありません</p>
+          )}
+
+          <div className="overflow-x-auto">
+            <div className="flex gap-0.5 min-w-[560px]">
+              {hours.map((h) => (
+                <div
+                  key={h.hour}
+                  title={`${compassName(h.wind.directionDeg)} ${h.wind.speedMs}m/s`}
+                  className={`flex-1 flex flex-col items-center rounded py-1 text-[9px] ${
+                    h.level === "danger"
+                      ? "bg-red-500/25"
+                      : h.level === "caution"
+                      ? "bg-amber-400/20"
+                      : h.hour === nowHour
+                      ? "bg-white/10"
+                      : ""
+                  }`}
+                >
+                  <span className={h.hour === nowHour ? "font-bold text-blue-400" : "text-white/40"}>{h.hour}</span>
+                  {/* Arrow points where the wind blows to */}
+                  <span
+                    className="text-sm text-white/80 leading-none my-0.5"
+                    style={{ transform: `rotate(${h.wind.directionDeg}deg)` }}
+                  >
+                    ↓
+                  </span>
+                  <span className="text-white/80 font-mono">{Math.round(h.wind.speedMs)}</span>
+                  <span className={h.flow.direction === "南流（下げ潮）" ? "text-orange-400" : h.flow.direction === "北流（上げ潮）" ? "text-blue-400" : "text-white/40"}>
+                    {h.flow.direction === "転流" ? "転" : h.flow.direction.slice(0, 1)}
+                    {h.flow.strength}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+          <p className="text-[10px] text-white/40 mt-2">
+            上から時刻・風向（矢印は風の吹く向き）・風速m/s・推定潮流
+            {weather.provider === "mock" ? " | 開発用の模擬データです" : ` | 気象データ: ${weather.provider}`}
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
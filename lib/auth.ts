@@ -0,0 +1,61 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { Session } from "@supabase/supabase-js";
+import { getSupabase } from "./supabase";
+
+// Current Supabase Auth session, kept in sync with sign-in/sign-out events
+export function useSession(): { session: Session | null; loading: boolean } {
+  const [session, setSession] = useState<Session | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const client = getSupabase();
+    if (!client) { setLoading(false); return; }
+
+    client.auth.getSession().then(({ data }) => {
+      setSession(data.session);
+      setLoading(false);
+    });
+    const { data } = client.auth.onAuthStateChange((_event, next) => {
+      setSession(next);
+    });
+    return () => data.subscription.unsubscribe();
+  }, []);
+
+  return { session, loading };
+}
+
+export async function signInWithPassword(email: string, password: string): Promise<void> {
+  const client = getSupabase();
+  if (!client) throw new Error("Supabase未設定");
+  const { error } = await client.auth.signInWithPassword({ email, password });
+  if (error) throw error;
+}
+
+export async function signUpWithPassword(email: string, password: string): Promise<void> {
+  const client = getSupabase();
+  if (!client) throw new Error("Supabase未設定");
+  const { error } = await client.auth.signUp({
+    email,
+    password,
+    options: { emailRedirectTo: window.location.origin },
+  });
+  if (error) throw error;
+}
+
+export async function sendMagicLink(email: string): Promise<void> {
+  const client = getSupabase();
+  if (!client) throw new Error("Supabase未設定");
+  const { error } = await client.auth.signInWithOtp({
+    email,
+    options: { emailRedirectTo: window.location.origin },
+  });
+  if (error) throw error;
+}
+
+export async function signOut(): Promise<void> {
+  const client = getSupabase();
+  if (!client) return;
+  await client.auth.signOut();
+}
@@ -0,0 +1,162 @@
+import type { FishingRecord } from "./supabase";
+import { isSlackFlow } from "./tide-utils";
+
+// Aggregations of fishing_records against tide and flow conditions.
+// Records with several species in fish_type ("メバル、アジ") count toward each.
+
+// The columns the aggregations read, so bulk loads can skip photos and memos
+export const ANALYTICS_COLUMNS = [
+  "fish_type",
+  "fish_count",
+  "time",
+  "tide_type",
+  "flow_direction",
+  "flow_strength",
+  "nearest_event_type",
+  "nearest_event_offset_min",
+] as const satisfies readonly (keyof FishingRecord)[];
+
+export type AnalyticsRecord = Pick<FishingRecord, (typeof ANALYTICS_COLUMNS)[number]>;
+
+export type Dimension = "tideName" | "flowDirection" | "strength" | "eventOffset" | "timeOfDay";
+
+export type Bucket = {
+  key: string;
+  catches: number;
+  trips: number;
+};
+
+export type SpeciesStats = {
+  species: string;
+  catches: number;
+  trips: number;
+  buckets: Record<Dimension, Bucket[]>;
+};
+
+export type BestCondition = {
+  dimension: Dimension;
+  key: string;
+  average: number;
+  trips: number;
+};
+
+export const DIMENSION_LABELS: Record<Dimension, string> = {
+  tideName: "潮回り",
+  flowDirection: "潮流の向き",
+  strength: "流れの強さ",
+  eventOffset: "満潮・干潮からの時間",
+  timeOfDay: "時間帯",
+};
+
+// Fixed bucket order per dimension so heatmap columns line up across species
+export const DIMENSION_KEYS: Record<Dimension, string[]> = {
+  tideName: ["大潮", "中潮", "小潮", "長潮", "若潮"],
+  flowDirection: ["南流", "北流", "転流"],
+  strength: ["強", "中", "弱"],
+  eventOffset: [
+    "満潮-3h", "満潮-2h", "満潮-1h", "満潮±0", "満潮+1h", "満潮+2h", "満潮+3h",
+    "干潮-3h", "干潮-2h", "干潮-1h", "干潮±0", "干潮+1h", "干潮+2h", "干潮+3h",
+  ],
+  timeOfDay: ["0-3時", "3-6時", "6-9時", "9-12時", "12-15時", "15-18時", "18-21時", "21-24時"],
+};
+
+// Minimum trips in a bucket before it can be called a species' best condition
+const MIN_TRIPS_FOR_BEST = 2;
+
+export function splitSpecies(fishType: string | null): string[] {
+  if (!fishType) return [];
+  return fishType
+    .split(/[、,，/／・\s]+/)
+    .map((s) => s.trim())
+    .filter(Boolean);
+}
+
+// "南流（下げ潮）" -> "南流", or "転流" within the slack band (see isSlackFlow);
+// null when no flow was recorded
+export function flowDirectionKey(direction: string | null, strength: string | null): "南流" | "北流" | "転流" | null {
+  if (!direction) return null;
+  if (isSlackFlow(direction, strength)) return "転流";
+  return direction.startsWith("南流") ? "南流" : direction.startsWith("北流") ? "北流" : "転流";
+}
+
+function bucketKey(record: AnalyticsRecord, dimension: Dimension): string | null {
+  switch (dimension) {
+    case "tideName":
+      return record.tide_type;
+    case "flowDirection":
+      return flowDirectionKey(record.flow_direction, record.flow_strength);
+    case "strength":
+      return record.flow_strength;
+    case "eventOffset": {
+      if (!record.nearest_event_type || record.nearest_event_offset_min == null) return null;
+      const label = record.nearest_event_type === "high" ? "満潮" : "干潮";
+      const hours = Math.round(record.nearest_event_offset_min / 60);
+      if (hours === 0) return `${label}±0`;
+      const clamped = Math.max(-3, Math.min(3, hours));
+      return `${label}${clamped > 0 ? "+" : ""}${clamped}h`;
+    }
+    case "timeOfDay": {
+      if (!record.time) return null;
+      const hour = parseInt(record.time.slice(0, 2), 10);
+      if (isNaN(hour)) return null;
+      const start = Math.floor(hour / 3) * 3;
+      return `${start}-${start + 3}時`;
+    }
+  }
+}
+
+export function aggregateBySpecies(records: AnalyticsRecord[]): SpeciesStats[] {
+  const bySpecies = new Map<string, AnalyticsRecord[]>();
+  for (const record of records) {
+    for (const species of splitSpecies(record.fish_type)) {
+      const list = bySpecies.get(species) ?? [];
+      list.push(record);
+      bySpecies.set(species, list);
+    }
+  }
+
+  const dimensions = Object.keys(DIMENSION_KEYS) as Dimension[];
+  const stats: SpeciesStats[] = [];
+  bySpecies.forEach((list, species) => {
+    const buckets = {} as Record<Dimension, Bucket[]>;
+    for (const dimension of dimensions) {
+      const map = new Map<string, Bucket>(
+        DIMENSION_KEYS[dimension].map((key) => [key, { key, catches: 0, trips: 0 }])
+      );
+      for (const record of list) {
+        const key = bucketKey(record, dimension);
+        if (!key) continue;
+        const bucket = map.get(key) ?? { key, catches: 0, trips: 0 };
+        bucket.catches += record.fish_count ?? 0;
+        bucket.trips += 1;
+        map.set(key, bucket);
+      }
+      buckets[dimension] = Array.from(map.values());
+    }
+    stats.push({
+      species,
+      catches: list.reduce((sum, r) => sum + (r.fish_count ?? 0), 0),
+      trips: list.length,
+      buckets,
+    });
+  });
+
+  return stats.sort((a, b) => b.catches - a.catches);
+}
+
+// The bucket with the highest average catch per trip in each dimension
+export function bestConditions(stats: SpeciesStats): BestCondition[] {
+  const result: BestCondition[] = [];
+  for (const dimension of Object.keys(stats.buckets) as Dimension[]) {
+    let best: BestCondition | null = null;
+    for (const bucket of stats.buckets[dimension]) {
+      if (bucket.trips < MIN_TRIPS_FOR_BEST) continue;
+      const average = bucket.catches / bucket.trips;
+      if (!best || average > best.average) {
+        best = { dimension, key: bucket.key, average, trips: bucket.trips };
+      }
+    }
+    if (best) result.push(best);
+  }
+  return result;
+}
@@ -0,0 +1,133 @@
+// Gridded tidal current field for the Akashi Strait area.
+// Vectors are relative to the peak speed in the narrows (1.0 = the speed
+// reported by estimateCurrentFlow); the map scales them by the current knots.
+// The field is a hand-tuned analytic model, not a hydrodynamic simulation:
+// a jet through the channel between 明石 and 岩屋 that fans out into 播磨灘 and
+// 大阪湾, plus standing eddies near 鹿ノ瀬 and along the 淡路 shore.
+
+export type FieldDirection = "south" | "north" | "slack";
+
+export type CurrentVector = {
+  u: number; // eastward component
+  v: number; // northward component
+  speed: number;
+};
+
+const LNG_MIN = 134.4;
+const LNG_MAX = 135.3;
+const LAT_MIN = 34.45;
+const LAT_MAX = 34.72;
+const STEP = 0.01;
+const COLS = Math.round((LNG_MAX - LNG_MIN) / STEP) + 1;
+const ROWS = Math.round((LAT_MAX - LAT_MIN) / STEP) + 1;
+
+// Narrowest point of the strait (明石–岩屋)
+const NARROWS = { lng: 134.995, lat: 34.615 };
+
+type Eddy = {
+  lng: number;
+  lat: number;
+  radius: number; // degrees
+  strength: number; // relative tangential speed at the core edge
+  // +1 counter-clockwise, -1 clockwise during 南流; reversed during 北流
+  spin: 1 | -1;
+};
+
+const EDDIES: Eddy[] = [
+  // 鹿ノ瀬: shoal in eastern 播磨灘 that sheds a large slow eddy
+  { lng: 134.84, lat: 34.6, radius: 0.045, strength: 0.35, spin: -1 },
+  // Back eddy along the 淡路 shore west of 岩屋 (松帆 area)
+  { lng: 134.955, lat: 34.585, radius: 0.018, strength: 0.45, spin: 1 },
+  // Lee of the 明石 side east of the narrows (垂水 off)
+  { lng: 135.06, lat: 34.625, radius: 0.02, strength: 0.3, spin: 1 },
+];
+
+// Eastward (南流) vector at a point before the eddies are added
+function jetVector(lng: number, lat: number): { u: number; v: number } {
+  const dx = lng - NARROWS.lng;
+  const dy = lat - NARROWS.lat;
+
+  // Channel axis bends slightly: WSW–ENE through the narrows
+  const axisAngle = dx * 0.3;
+  // Fastest in the narrows, decaying along and across the channel; the jet
+  // spreads (wider across-channel scale) as it leaves the strait
+  const spread = 0.025 + Math.abs(dx) * 0.35;
+  const along = Math.exp(-((dx / 0.12) ** 2));
+  const across = Math.exp(-((dy / spread) ** 2));
+  const jet = along * across;
+  const speed = 0.12 + 0.88 * jet;
+
+  // Away from the channel the flow fans radially: converging toward the
+  // narrows on the 播磨灘 side and diverging into 大阪湾
+  const dist = Math.hypot(dx, dy) || 1e-6;
+  const radial = dx < 0 ? { u: -dx / dist, v: -dy / dist } : { u: dx / dist, v: dy / dist };
+  const fan = Math.min(1, Math.abs(dx) / 0.15) * (1 - jet);
+
+  const u = (1 - fan) * Math.cos(axisAngle) + fan * radial.u;
+  const v = (1 - fan) * Math.sin(axisAngle) + fan * radial.v;
+  const norm = Math.hypot(u, v) || 1;
+  return { u: (u / norm) * speed, v: (v / norm) * speed };
+}
+
+function eddyVector(lng: number, lat: number): { u: number; v: number } {
+  let u = 0;
+  let v = 0;
+  for (const e of EDDIES) {
+    const dx = lng - e.lng;
+    const dy = lat - e.lat;
+    const r = Math.hypot(dx, dy);
+    if (r === 0 || r > e.radius * 3) continue;
+    // Rankine-like profile: solid rotation in the core, decaying outside
+    const tangential =
+      r < e.radius
+        ? e.strength * (r / e.radius)
+        : e.strength * Math.exp(-(r - e.radius) / e.radius);
+    u += (-dy / r) * tangential * e.spin;
+    v += (dx / r) * tangential * e.spin;
+  }
+  return { u, v };
+}
+
+// Precomputed 南流 field; 北流 is the same field reversed
+const FIELD_U = new Float32Array(COLS * ROWS);
+const FIELD_V = new Float32Array(COLS * ROWS);
+
+for (let row = 0; row < ROWS; row++) {
+  for (let col = 0; col < COLS; col++) {
+    const lng = LNG_MIN + col * STEP;
+    const lat = LAT_MIN + row * STEP;
+    const jet = jetVector(lng, lat);
+    const eddy = eddyVector(lng, lat);
+    FIELD_U[row * COLS + col] = jet.u + eddy.u;
+    FIELD_V[row * COLS + col] = jet.v + eddy.v;
+  }
+}
+
+// Bilinear sample of the field. Slack water returns a zero vector.
+export function sampleCurrentField(
+  lng: number,
+  lat: number,
+  direction: FieldDirection
+): CurrentVector {
+  if (direction === "slack") return { u: 0, v: 0, speed: 0 };
+
+  const x = Math.min(Math.max((lng - LNG_MIN) / STEP, 0), COLS - 1.001);
+  const y = Math.min(Math.max((lat - LAT_MIN) / STEP, 0), ROWS - 1.001);
+  const c0 = Math.floor(x);
+  const r0 = Math.floor(y);
+  const fx = x - c0;
+  const fy = y - r0;
+  const i00 = r0 * COLS + c0;
+  const i10 = i00 + 1;
+  const i01 = i00 + COLS;
+  const i11 = i01 + 1;
+
+  const lerp = (f: Float32Array) =>
+    (f[i00] * (1 - fx) + f[i10] * fx) * (1 - fy) +
+    (f[i01] * (1 - fx) + f[i11] * fx) * fy;
+
+  const sign = direction === "south" ? 1 : -1;
+  const u = lerp(FIELD_U) * sign;
+  const v = lerp(FIELD_V) * sign;
+  return { u, v, speed: Math.hypot(u, v) };
+}
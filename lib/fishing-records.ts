@@ -0,0 +1,168 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { FishingRecord } from "./supabase";
+
+export type RecordFilters = {
+  from: string;
+  to: string;
+  species: string;
+  tideType: string;
+  minCount: string;
+  search: string;
+  spotId: string;
+};
+
+export const EMPTY_FILTERS: RecordFilters = {
+  from: "",
+  to: "",
+  species: "",
+  tideType: "",
+  minCount: "",
+  search: "",
+  spotId: "",
+};
+
+export const PAGE_SIZE = 20;
+
+// Escape LIKE wildcards so user input matches literally
+function likePattern(value: string): string {
+  return `%${value.replace(/[\\%_]/g, (c) => `\\${c}`)}%`;
+}
+
+// A column of fishing_records, for loads that only need a few of them
+export type RecordColumn = keyof FishingRecord;
+
+function filteredQuery(client: SupabaseClient, filters: RecordFilters, columns?: readonly RecordColumn[]) {
+  let query = client
+    .from("fishing_records")
+    .select(columns ? columns.join(", ") : "*")
+    .order("date", { ascending: false })
+    .order("time", { ascending: false, nullsFirst: false })
+    // Unique tiebreaker so offset pages stay stable for records on the same date and time
+    .order("id");
+
+  if (filters.from) query = query.gte("date", filters.from);
+  if (filters.to) query = query.lte("date", filters.to);
+  if (filters.species.trim()) query = query.ilike("fish_type", likePattern(filters.species.trim()));
+  if (filters.tideType) query = query.eq("tide_type", filters.tideType);
+  if (filters.minCount) query = query.gte("fish_count", parseInt(filters.minCount, 10));
+  if (filters.search.trim()) query = query.ilike("memo", likePattern(filters.search.trim()));
+  if (filters.spotId) query = query.eq("spot_id", filters.spotId);
+  return query;
+}
+
+export async function fetchRecordsPage(
+  client: SupabaseClient,
+  filters: RecordFilters,
+  page: number
+): Promise<{ records: FishingRecord[]; hasMore: boolean }> {
+  // Fetch one extra row to know whether another page exists
+  const start = page * PAGE_SIZE;
+  const { data, error } = await filteredQuery(client, filters)
+    .range(start, start + PAGE_SIZE)
+    .overrideTypes<FishingRecord[], { merge: false }>();
+  if (error) throw error;
+
+  const rows = data || [];
+  return { records: rows.slice(0, PAGE_SIZE), hasMore: rows.length > PAGE_SIZE };
+}
+
+// PostgREST caps responses (1000 rows by default), so bulk reads go in batches
+const BATCH_SIZE = 1000;
+
+// Every record matching the filters, for export and analytics; ownerId limits it
+// to one angler's records. Pass columns to skip the photo and memo payload when
+// only a few fields are read; the rows are then typed as just those columns.
+export async function fetchAllRecords<K extends RecordColumn = RecordColumn>(
+  client: SupabaseClient,
+  filters: RecordFilters,
+  ownerId?: string,
+  columns?: readonly K[]
+): Promise<Pick<FishingRecord, K>[]> {
+  const all: Pick<FishingRecord, K>[] = [];
+  for (let start = 0; ; start += BATCH_SIZE) {
+    let query = filteredQuery(client, filters, columns);
+    if (ownerId) query = query.eq("user_id", ownerId);
+    const { data, error } = await query
+      .range(start, start + BATCH_SIZE - 1)
+      .overrideTypes<Pick<FishingRecord, K>[], { merge: false }>();
+    if (error) throw error;
+    const rows = data || [];
+    all.push(...rows);
+    if (rows.length < BATCH_SIZE) return all;
+  }
+}
+
+// Upper bound for the map layer; older catches beyond it are not plotted
+const MAP_RECORD_LIMIT = 1000;
+
+// What the catch markers, their popups and the map filters read
+export const MAP_COLUMNS = [
+  "date",
+  "time",
+  "fish_type",
+  "fish_count",
+  "tide_type",
+  "flow_direction",
+  "flow_strength",
+  "flow_speed_knots",
+  "lat",
+  "lng",
+] as const satisfies readonly RecordColumn[];
+
+export type MapRecord = Pick<FishingRecord, (typeof MAP_COLUMNS)[number]>;
+
+// Records with a location, newest first, for the catch markers on the strait map
+export async function fetchGeotaggedRecords(client: SupabaseClient): Promise<MapRecord[]> {
+  const { data, error } = await client
+    .from("fishing_records")
+    .select(MAP_COLUMNS.join(", "))
+    .not("lat", "is", null)
+    .not("lng", "is", null)
+    .order("date", { ascending: false })
+    .limit(MAP_RECORD_LIMIT)
+    .overrideTypes<MapRecord[], { merge: false }>();
+  if (error) throw error;
+  return data || [];
+}
+
+export type RecordInput = Partial<Omit<FishingRecord, "id" | "created_at">>;
+
+// id is optional; callers that upload photos first pass the id they used in the storage paths
+export async function insertRecord(
+  client: SupabaseClient,
+  fields: RecordInput & { id?: string }
+): Promise<void> {
+  const { error } = await client.from("fishing_records").insert(fields);
+  if (error) throw error;
+}
+
+const INSERT_BATCH_SIZE = 200;
+
+// Bulk insert for imports; onProgress reports rows written so far, so a failure
+// part-way leaves the caller knowing which rows made it
+export async function insertRecords(
+  client: SupabaseClient,
+  rows: RecordInput[],
+  onProgress?: (done: number) => void
+): Promise<void> {
+  for (let start = 0; start < rows.length; start += INSERT_BATCH_SIZE) {
+    const batch = rows.slice(start, start + INSERT_BATCH_SIZE);
+    const { error } = await client.from("fishing_records").insert(batch);
+    if (error) throw error;
+    onProgress?.(start + batch.length);
+  }
+}
+
+export async function updateRecord(
+  client: SupabaseClient,
+  id: string,
+  changes: RecordInput
+): Promise<void> {
+  const { error } = await client.from("fishing_records").update(changes).eq("id", id);
+  if (error) throw error;
+}
+
+export async function deleteRecord(client: SupabaseClient, id: string): Promise<void> {
+  const { error } = await client.from("fishing_records").delete().eq("id", id);
+  if (error) throw error;
+}
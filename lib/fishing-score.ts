@@ -0,0 +1,219 @@
+import type { TideDay } from "./tide-api";
+import type { TideName } from "./moon";
+import type { MazumeWindow } from "./mazume";
+import type { SunTimes } from "./sun";
+import { CurrentFlow, estimateCurrentFlow, minutesToTime, tideStage } from "./tide-utils";
+import {
+  aggregateBySpecies,
+  AnalyticsRecord,
+  bestConditions,
+  Bucket,
+  flowDirectionKey,
+  SpeciesStats,
+  splitSpecies,
+} from "./catch-analytics";
+
+// "Best time to fish": every 30-minute slot of a day scored 0–100 for a target
+// species. A hand-tuned profile per species rates flow strength, the stage of
+// the rising/falling tide, 潮回り and time of day; the angler's own history
+// (fishing_records aggregated as in catch-analytics) is blended in once there
+// are enough trips to trust it.
+
+export const TARGET_SPECIES = ["タチウオ", "メバル", "アジ", "青物", "タコ"] as const;
+export type TargetSpecies = (typeof TARGET_SPECIES)[number];
+
+// Names in fish_type counted as the target species
+const SPECIES_ALIASES: Record<TargetSpecies, string[]> = {
+  タチウオ: ["タチウオ", "太刀魚"],
+  メバル: ["メバル"],
+  アジ: ["アジ", "豆アジ", "マアジ"],
+  青物: ["青物", "ツバス", "ハマチ", "メジロ", "ブリ", "サゴシ", "サワラ", "カンパチ"],
+  タコ: ["タコ", "マダコ", "明石ダコ"],
+};
+
+type TimeOfDay = "mazume" | "day" | "night";
+
+type SpeciesProfile = {
+  strength: Record<CurrentFlow["strength"], number>; // 0–1 per band
+  // 0–1 per tide direction, multiplied into the stage score
+  direction: Record<"上げ" | "下げ", number>;
+  // Preferred stage of the tide in tenths (潮の「分」), inclusive
+  stage: [number, number];
+  tideName: Record<TideName, number>;
+  timeOfDay: Record<TimeOfDay, number>;
+};
+
+const PROFILES: Record<TargetSpecies, SpeciesProfile> = {
+  // Feeds up in the water column at dusk and night on a moderate current
+  タチウオ: {
+    strength: { 強: 0.5, 中: 1, 弱: 0.4 },
+    direction: { 上げ: 1, 下げ: 1 },
+    stage: [2, 7],
+    tideName: { 大潮: 0.8, 中潮: 1, 小潮: 0.7, 長潮: 0.5, 若潮: 0.6 },
+    timeOfDay: { mazume: 1, day: 0.2, night: 0.8 },
+  },
+  // Night and まずめ on a gentle current, classically on the rising tide
+  メバル: {
+    strength: { 強: 0.3, 中: 0.8, 弱: 1 },
+    direction: { 上げ: 1, 下げ: 0.7 },
+    stage: [1, 6],
+    tideName: { 大潮: 0.7, 中潮: 1, 小潮: 0.9, 長潮: 0.7, 若潮: 0.8 },
+    timeOfDay: { mazume: 1, day: 0.3, night: 0.9 },
+  },
+  // Schools come in with moving water around まずめ
+  アジ: {
+    strength: { 強: 0.6, 中: 1, 弱: 0.4 },
+    direction: { 上げ: 1, 下げ: 1 },
+    stage: [3, 7],
+    tideName: { 大潮: 1, 中潮: 1, 小潮: 0.6, 長潮: 0.4, 若潮: 0.5 },
+    timeOfDay: { mazume: 1, day: 0.5, night: 0.6 },
+  },
+  // Bait pushed through the strait on fast current, best at 朝まずめ
+  青物: {
+    strength: { 強: 1, 中: 0.8, 弱: 0.2 },
+    direction: { 上げ: 1, 下げ: 1 },
+    stage: [3, 7],
+    tideName: { 大潮: 1, 中潮: 0.9, 小潮: 0.5, 長潮: 0.3, 若潮: 0.4 },
+    timeOfDay: { mazume: 1, day: 0.6, night: 0.1 },
+  },
+  // Daytime on the bottom; slack-ish water lets the rig hold
+  タコ: {
+    strength: { 強: 0.1, 中: 0.6, 弱: 1 },
+    direction: { 上げ: 1, 下げ: 1 },
+    stage: [0, 3],
+    tideName: { 大潮: 0.5, 中潮: 0.8, 小潮: 1, 長潮: 1, 若潮: 0.9 },
+    timeOfDay: { mazume: 0.8, day: 1, night: 0.1 },
+  },
+};
+
+const WEIGHTS = { strength: 0.3, stage: 0.2, tideName: 0.15, timeOfDay: 0.35 };
+
+export const SLOT_MINUTES = 30;
+// History never outweighs the profile; it reaches this share at HISTORY_FULL_TRIPS
+const MAX_HISTORY_WEIGHT = 0.4;
+const HISTORY_FULL_TRIPS = 30;
+// Minimum trips in a bucket before it counts
+const MIN_BUCKET_TRIPS = 2;
+
+export type ScoredSlot = {
+  start: number; // minutes since midnight
+  end: number;
+  score: number; // 0–100
+  // Short labels, strongest first, e.g. ["下げ5分", "夕まずめ", "大潮"]
+  reasons: string[];
+};
+
+// Catch history of one target species, all its aliases counted together
+export function speciesHistory(records: AnalyticsRecord[], species: TargetSpecies): SpeciesStats | null {
+  const aliases = SPECIES_ALIASES[species];
+  const matching = records
+    .filter((r) => splitSpecies(r.fish_type).some((name) => aliases.includes(name)))
+    .map((r) => ({ ...r, fish_type: species }));
+  return aggregateBySpecies(matching)[0] ?? null;
+}
+
+function timeOfDayAt(minutes: number, sun: SunTimes, mazume: MazumeWindow[]): { kind: TimeOfDay; label: string | null } {
+  const window = mazume.find((w) => minutes >= w.start && minutes <= w.end);
+  if (window) return { kind: "mazume", label: window.label };
+  const light = sun.dawn !== null && sun.dusk !== null && minutes > sun.dawn && minutes < sun.dusk;
+  return light ? { kind: "day", label: "日中" } : { kind: "night", label: "夜" };
+}
+
+function stageScore(tenths: number, [min, max]: [number, number]): number {
+  const distance = tenths < min ? min - tenths : tenths > max ? tenths - max : 0;
+  return Math.max(0, 1 - distance * 0.25);
+}
+
+// Relative catch rate (0–1) of the bucket this slot falls in, per dimension with data
+function historyScore(
+  stats: SpeciesStats,
+  keys: { tideName: string; flowDirection: string; strength: string; timeOfDay: string }
+): { score: number; best: string | null } | null {
+  const rates: number[] = [];
+  let best: string | null = null;
+  const bestKeys = new Set(bestConditions(stats).map((b) => `${b.dimension}:${b.key}`));
+
+  for (const [dimension, key] of Object.entries(keys) as [keyof typeof keys, string][]) {
+    const buckets: Bucket[] = stats.buckets[dimension].filter((b) => b.trips >= MIN_BUCKET_TRIPS);
+    if (buckets.length === 0) continue;
+    const maxAverage = Math.max(...buckets.map((b) => b.catches / b.trips));
+    const bucket = buckets.find((b) => b.key === key);
+    rates.push(bucket && maxAverage > 0 ? bucket.catches / bucket.trips / maxAverage : 0);
+    if (bucket && !best && bestKeys.has(`${dimension}:${key}`)) best = key;
+  }
+  if (rates.length === 0) return null;
+  return { score: rates.reduce((a, b) => a + b, 0) / rates.length, best };
+}
+
+export function scoreDay(
+  day: TideDay,
+  species: TargetSpecies,
+  sun: SunTimes,
+  mazume: MazumeWindow[],
+  history: SpeciesStats | null
+): ScoredSlot[] {
+  const profile = PROFILES[species];
+  const historyWeight = history ? Math.min(MAX_HISTORY_WEIGHT, (history.trips / HISTORY_FULL_TRIPS) * MAX_HISTORY_WEIGHT) : 0;
+  const slots: ScoredSlot[] = [];
+
+  for (let start = 0; start < 1440; start += SLOT_MINUTES) {
+    const mid = start + SLOT_MINUTES / 2;
+    const flow = estimateCurrentFlow(day.events, mid);
+    const stage = tideStage(day.events, mid);
+    const time = timeOfDayAt(mid, sun, mazume);
+
+    const parts = {
+      strength: profile.strength[flow.strength],
+      stage: stage ? stageScore(stage.tenths, profile.stage) * profile.direction[stage.rising ? "上げ" : "下げ"] : 0,
+      tideName: profile.tideName[day.tideName],
+      timeOfDay: profile.timeOfDay[time.kind],
+    };
+    const model =
+      parts.strength * WEIGHTS.strength +
+      parts.stage * WEIGHTS.stage +
+      parts.tideName * WEIGHTS.tideName +
+      parts.timeOfDay * WEIGHTS.timeOfDay;
+
+    const hour = Math.floor(mid / 60);
+    const past =
+      history && historyWeight > 0
+        ? historyScore(history, {
+            tideName: day.tideName,
+            flowDirection: flowDirectionKey(flow.direction, flow.strength) ?? "転流",
+            strength: flow.strength,
+            timeOfDay: `${Math.floor(hour / 3) * 3}-${Math.floor(hour / 3) * 3 + 3}時`,
+          })
+        : null;
+    const score = past ? model * (1 - historyWeight) + past.score * historyWeight : model;
+
+    // Reasons: the tide stage always, then the factors that helped this slot
+    const reasons: { label: string; weight: number }[] = [];
+    if (stage) {
+      const label = stage.tenths === 0 || stage.tenths === 10 ? "潮止まり" : `${stage.rising ? "上げ" : "下げ"}${stage.tenths}分`;
+      reasons.push({ label, weight: 2 });
+    }
+    if (time.label && parts.timeOfDay >= 0.8) reasons.push({ label: time.label, weight: parts.timeOfDay * WEIGHTS.timeOfDay });
+    if (parts.tideName >= 0.9) reasons.push({ label: day.tideName, weight: parts.tideName * WEIGHTS.tideName });
+    if (parts.strength >= 0.8 && flow.direction !== "転流") {
+      reasons.push({ label: `潮流${flow.strength}`, weight: parts.strength * WEIGHTS.strength });
+    }
+    if (past?.best) reasons.push({ label: `実績: ${past.best}`, weight: historyWeight });
+
+    slots.push({
+      start,
+      end: start + SLOT_MINUTES,
+      score: Math.round(score * 100),
+      reasons: reasons.sort((a, b) => b.weight - a.weight).map((r) => r.label),
+    });
+  }
+  return slots;
+}
+
+// Highest scores first; ties go to the earlier slot
+export function topSlots(slots: ScoredSlot[], count: number): ScoredSlot[] {
+  return [...slots].sort((a, b) => b.score - a.score || a.start - b.start).slice(0, count);
+}
+
+export function slotLabel(slot: ScoredSlot): string {
+  return `${minutesToTime(slot.start)}〜${minutesToTime(slot.end % 1440)}`;
+}
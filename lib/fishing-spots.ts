@@ -0,0 +1,53 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { FishingSpot } from "./supabase";
+import { CurrentFlow, isSlackFlow } from "./tide-utils";
+
+export const FLOW_DIRECTIONS = ["南流", "北流", "転流"] as const;
+export const FLOW_STRENGTHS = ["強", "中", "弱"] as const;
+
+// A saved spot as drawn on the strait map
+export type SpotMarker = { spot: FishingSpot; active: boolean };
+
+export async function fetchSpots(client: SupabaseClient): Promise<FishingSpot[]> {
+  const { data, error } = await client.from("fishing_spots").select("*").order("name");
+  if (error) throw error;
+  return (data || []) as FishingSpot[];
+}
+
+export type SpotInput = Partial<Omit<FishingSpot, "id" | "created_at">>;
+
+export async function insertSpot(client: SupabaseClient, fields: SpotInput): Promise<void> {
+  const { error } = await client.from("fishing_spots").insert(fields);
+  if (error) throw error;
+}
+
+export async function updateSpot(client: SupabaseClient, id: string, changes: SpotInput): Promise<void> {
+  const { error } = await client.from("fishing_spots").update(changes).eq("id", id);
+  if (error) throw error;
+}
+
+// Records keep their catch data; spot_id is cleared by the foreign key
+export async function deleteSpot(client: SupabaseClient, id: string): Promise<void> {
+  const { error } = await client.from("fishing_spots").delete().eq("id", id);
+  if (error) throw error;
+}
+
+// A spot is "on" when the flow matches every preference it sets. Spots with
+// no preferences are never highlighted. 転流 matches the slack band on either
+// side of a turn, while 南流/北流 match the running direction even when weak,
+// so a "南流・弱" preference still lights up.
+export function isPreferredFlow(spot: FishingSpot, flow: CurrentFlow): boolean {
+  const { good_directions: directions, good_strengths: strengths } = spot;
+  if (directions.length === 0 && strengths.length === 0) return false;
+  const directionMatches = directions.some((d) =>
+    d === "転流" ? isSlackFlow(flow.direction, flow.strength) : flow.direction.startsWith(d)
+  );
+  if (directions.length > 0 && !directionMatches) return false;
+  if (strengths.length > 0 && !strengths.includes(flow.strength)) return false;
+  return true;
+}
+
+export function describePreference(spot: FishingSpot): string {
+  const parts = [...spot.good_directions, ...spot.good_strengths.map((s) => `流れ${s}`)];
+  return parts.length > 0 ? parts.join("・") : "指定なし";
+}
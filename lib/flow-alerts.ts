@@ -0,0 +1,87 @@
+import type { TideDay } from "./tide-api";
+import { peakSpeedForRange, STRENGTH_THRESHOLDS } from "./tide-utils";
+import { jstTime, tideTimeline } from "./tide-timeline";
+
+// Flow alerts computed from the tide events. Shared by the push dispatch job,
+// the local push stand-in and the settings preview.
+
+export type AlertRule =
+  // N minutes before each slack water (転流)
+  | { kind: "slack"; leadMinutes: number }
+  // When the flow in one direction first reaches a strength band
+  | { kind: "strength"; direction: "南流" | "北流"; strength: "強" | "中" };
+
+export type FlowAlert = {
+  // Stable per event, used as the notification tag so repeats replace each other
+  tag: string;
+  fireAt: string; // ISO instant
+  title: string;
+  body: string;
+};
+
+export const SLACK_LEAD_OPTIONS = [15, 30, 60];
+
+export function isAlertRule(value: unknown): value is AlertRule {
+  if (typeof value !== "object" || value === null) return false;
+  const rule = value as Record<string, unknown>;
+  if (rule.kind === "slack") {
+    return typeof rule.leadMinutes === "number" && rule.leadMinutes >= 0 && rule.leadMinutes <= 180;
+  }
+  return (
+    rule.kind === "strength" &&
+    (rule.direction === "南流" || rule.direction === "北流") &&
+    (rule.strength === "強" || rule.strength === "中")
+  );
+}
+
+export function describeRule(rule: AlertRule): string {
+  return rule.kind === "slack" ? `転流の${rule.leadMinutes}分前` : `${rule.direction}が${rule.strength}になったら`;
+}
+
+export function computeAlerts(days: TideDay[], rules: AlertRule[], portName: string): FlowAlert[] {
+  const timeline = tideTimeline(days);
+  const alerts: FlowAlert[] = [];
+
+  for (const rule of rules) {
+    timeline.forEach((event, i) => {
+      // Flow after a high runs south (下げ), after a low north (上げ)
+      const direction = event.type === "high" ? "南流" : "北流";
+
+      if (rule.kind === "slack") {
+        const label = event.type === "high" ? "満潮" : "干潮";
+        alerts.push({
+          tag: `slack-${rule.leadMinutes}-${event.at.toISOString()}`,
+          fireAt: new Date(event.at.getTime() - rule.leadMinutes * 60000).toISOString(),
+          title: `${rule.leadMinutes}分後に転流（${portName}）`,
+          body: `${jstTime(event.at)} ${label}。その後は${direction}に変わります`,
+        });
+        return;
+      }
+
+      const next = timeline[i + 1];
+      if (!next || direction !== rule.direction) return;
+      const peak = peakSpeedForRange(event.height - next.height);
+      const threshold = STRENGTH_THRESHOLDS[rule.strength];
+      if (peak < threshold) return;
+      // speed = peak × sin(π × progress) first reaches the threshold here
+      const span = next.at.getTime() - event.at.getTime();
+      const reachAt = new Date(event.at.getTime() + (span * Math.asin(threshold / peak)) / Math.PI);
+      const peakAt = new Date(event.at.getTime() + span / 2);
+      alerts.push({
+        tag: `strength-${rule.direction}-${rule.strength}-${event.at.toISOString()}`,
+        fireAt: reachAt.toISOString(),
+        title: `${rule.direction}が${rule.strength}になりました（${portName}）`,
+        body: `最強 ${jstTime(peakAt)}頃 推定${peak.toFixed(1)}kt`,
+      });
+    });
+  }
+
+  return alerts.sort((a, b) => a.fireAt.localeCompare(b.fireAt));
+}
+
+// Alerts firing in (since, until]
+export function alertsBetween(alerts: FlowAlert[], since: Date, until: Date): FlowAlert[] {
+  const from = since.toISOString();
+  const to = until.toISOString();
+  return alerts.filter((a) => a.fireAt > from && a.fireAt <= to);
+}
@@ -0,0 +1,90 @@
+// Minimal RFC 5545 writer for the subscribable tide feed
+
+export type IcsEvent = {
+  // Stable across refreshes so calendar apps update events in place
+  uid: string;
+  summary: string;
+  description?: string;
+  categories?: string[];
+  // Timed event (UTC instants) or an all-day event on a YYYY-MM-DD date
+  start: Date | string;
+  end?: Date;
+};
+
+function escapeText(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+}
+
+const encoder = new TextEncoder();
+
+// Lines longer than 75 octets continue on the next line after a space; never split a character
+function fold(line: string): string {
+  const parts: string[] = [];
+  let current = "";
+  let octets = 0;
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    if (octets + size > 75) {
+      parts.push(current);
+      current = " ";
+      octets = 1;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join("\r\n");
+}
+
+function formatUtc(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+function formatDate(date: string): string {
+  return date.replace(/-/g, "");
+}
+
+function nextDate(date: string): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + 1);
+  return d.toISOString().split("T")[0];
+}
+
+export function buildCalendar(options: {
+  name: string;
+  description?: string;
+  refreshHours: number;
+  events: IcsEvent[];
+}): string {
+  const stamp = formatUtc(new Date());
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//akashi-tide-app//tide feed//JA",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(options.name)}`,
+    "X-WR-TIMEZONE:Asia/Tokyo",
+    `REFRESH-INTERVAL;VALUE=DURATION:PT${options.refreshHours}H`,
+    `X-PUBLISHED-TTL:PT${options.refreshHours}H`,
+  ];
+  if (options.description) lines.push(`X-WR-CALDESC:${escapeText(options.description)}`);
+
+  for (const event of options.events) {
+    lines.push("BEGIN:VEVENT", `UID:${event.uid}`, `DTSTAMP:${stamp}`);
+    if (typeof event.start === "string") {
+      lines.push(`DTSTART;VALUE=DATE:${formatDate(event.start)}`, `DTEND;VALUE=DATE:${formatDate(nextDate(event.start))}`);
+    } else {
+      lines.push(`DTSTART:${formatUtc(event.start)}`, `DTEND:${formatUtc(event.end ?? event.start)}`);
+    }
+    // Tide times are for planning, not busy time
+    lines.push("TRANSP:TRANSPARENT");
+    lines.push(`SUMMARY:${escapeText(event.summary)}`);
+    if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+    if (event.categories?.length) lines.push(`CATEGORIES:${event.categories.map(escapeText).join(",")}`);
+    lines.push("END:VEVENT");
+  }
+
+  lines.push("END:VCALENDAR");
+  return lines.map(fold).join("\r\n") + "\r\n";
+}
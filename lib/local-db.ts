@@ -0,0 +1,80 @@
+// The app's IndexedDB database. Every object store is created here so the
+// schema version has a single owner.
+
+const DB_NAME = "akashi-tide";
+const DB_VERSION = 3;
+
+// Offline outbox for fishing records (offline-queue.ts)
+export const PENDING_RECORDS_STORE = "pending_records";
+// Photo blobs for the local storage backend (photo-storage.ts), keyed by path
+export const PHOTO_STORE = "photos";
+// Tide days kept for use without a connection (tide-offline.ts), keyed by "port:date"
+export const TIDE_DAYS_STORE = "tide_days";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(PENDING_RECORDS_STORE)) {
+          db.createObjectStore(PENDING_RECORDS_STORE, { keyPath: "id" });
+        }
+        if (!db.objectStoreNames.contains(PHOTO_STORE)) {
+          db.createObjectStore(PHOTO_STORE);
+        }
+        if (!db.objectStoreNames.contains(TIDE_DAYS_STORE)) {
+          db.createObjectStore(TIDE_DAYS_STORE, { keyPath: "key" });
+        }
+      };
+      let blocked = false;
+      // Another tab (or an installed PWA) still holds an older version open.
+      // Fail now rather than leave every caller waiting; the next call retries.
+      request.onblocked = () => {
+        blocked = true;
+        dbPromise = null;
+        reject(new DOMException("Database upgrade blocked by another open tab", "InvalidStateError"));
+      };
+      request.onsuccess = () => {
+        const db = request.result;
+        if (blocked) {
+          db.close();
+          return;
+        }
+        // Let a newer version in another tab upgrade: close and reopen on next use
+        db.onversionchange = () => {
+          db.close();
+          dbPromise = null;
+        };
+        resolve(db);
+      };
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+// One transaction on a store. Resolves with the request's result once the
+// transaction commits; rejects on error and on abort (quota errors and
+// version-change closes abort without an error event).
+export function runTransaction<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T | undefined> {
+  return openDatabase().then(
+    (db) =>
+      new Promise<T | undefined>((resolve, reject) => {
+        const tx = db.transaction(storeName, mode);
+        const request = action(tx.objectStore(storeName));
+        tx.oncomplete = () => resolve(request ? request.result : undefined);
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error ?? new DOMException("Transaction aborted", "AbortError"));
+      })
+  );
+}
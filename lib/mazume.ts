@@ -0,0 +1,60 @@
+import type { SunTimes } from "./sun";
+import { CurrentFlow, estimateCurrentFlow, TideEvent } from "./tide-utils";
+
+// 朝まずめ / 夕まずめ: the feeding windows around sunrise and sunset, from the
+// start of civil twilight to an hour after sunrise and from an hour before
+// sunset to the end of civil twilight. A window is flagged when it overlaps
+// 中 or 強 flow, sampled with estimateCurrentFlow.
+
+export const MAZUME_SUN_OFFSET_MIN = 60;
+const SAMPLE_STEP_MIN = 5;
+
+export type FlowRun = {
+  start: number; // minutes since midnight
+  end: number;
+  direction: Exclude<CurrentFlow["direction"], "転流">;
+  // Strongest band reached during the run
+  strength: "強" | "中";
+};
+
+export type MazumeWindow = {
+  label: "朝まずめ" | "夕まずめ";
+  start: number; // minutes since midnight
+  end: number;
+  // Stretches of 中/強 flow inside the window; empty when the flow stays weak
+  runs: FlowRun[];
+};
+
+function flowRuns(events: TideEvent[], start: number, end: number): FlowRun[] {
+  const runs: FlowRun[] = [];
+  let current: FlowRun | null = null;
+  for (let minutes = start; minutes <= end; minutes += SAMPLE_STEP_MIN) {
+    const flow = estimateCurrentFlow(events, minutes);
+    if (flow.direction === "転流" || flow.strength === "弱") {
+      current = null;
+    } else if (current && current.direction === flow.direction) {
+      current.end = minutes;
+      if (flow.strength === "強") current.strength = "強";
+    } else {
+      current = { start: minutes, end: minutes, direction: flow.direction, strength: flow.strength };
+      runs.push(current);
+    }
+  }
+  return runs;
+}
+
+export function mazumeWindows(sun: SunTimes, events: TideEvent[]): MazumeWindow[] {
+  const windows: MazumeWindow[] = [];
+  if (sun.rise !== null) {
+    const start = Math.max(sun.dawn ?? sun.rise - MAZUME_SUN_OFFSET_MIN, 0);
+    const end = Math.min(sun.rise + MAZUME_SUN_OFFSET_MIN, 1439);
+    windows.push({ label: "朝まずめ", start, end, runs: [] });
+  }
+  if (sun.set !== null) {
+    const start = Math.max(sun.set - MAZUME_SUN_OFFSET_MIN, 0);
+    const end = Math.min(sun.dusk ?? sun.set + MAZUME_SUN_OFFSET_MIN, 1439);
+    windows.push({ label: "夕まずめ", start, end, runs: [] });
+  }
+  if (events.length === 0) return windows;
+  return windows.map((w) => ({ ...w, runs: flowRuns(events, w.start, w.end) }));
+}
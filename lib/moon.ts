@@ -0,0 +1,114 @@
+// Moon age, phase and 潮回り computed locally (no external API).
+// New moon instants follow Meeus, "Astronomical Algorithms" ch. 49,
+// keeping the periodic terms down to 0.0001 day; accurate to a few minutes.
+
+export type TideName = "大潮" | "中潮" | "小潮" | "長潮" | "若潮";
+
+export type MoonPhase = {
+  name: string;
+  icon: string;
+};
+
+export type MoonInfo = {
+  age: number; // days since the last new moon
+  illumination: number; // 0–1
+  phase: MoonPhase;
+  tideName: TideName;
+};
+
+const SYNODIC_MONTH = 29.530588861;
+const DEG = Math.PI / 180;
+const JD_UNIX_EPOCH = 2440587.5;
+
+function toJulianDay(date: Date): number {
+  return date.getTime() / 86400000 + JD_UNIX_EPOCH;
+}
+
+// Julian Ephemeris Day of the k-th new moon after 2000-01-06
+function newMoonJde(k: number): number {
+  const t = k / 1236.85;
+  const t2 = t * t;
+  const t3 = t2 * t;
+  const t4 = t3 * t;
+  const jde =
+    2451550.09766 + SYNODIC_MONTH * k + 0.00015437 * t2 - 0.00000015 * t3 + 0.00000000073 * t4;
+  const e = 1 - 0.002516 * t - 0.0000074 * t2;
+  const m = (2.5534 + 29.1053567 * k - 0.0000014 * t2 - 0.00000011 * t3) * DEG;
+  const mp =
+    (201.5643 + 385.81693528 * k + 0.0107582 * t2 + 0.00001238 * t3 - 0.000000058 * t4) * DEG;
+  const f =
+    (160.7108 + 390.67050284 * k - 0.0016118 * t2 - 0.00000227 * t3 + 0.000000011 * t4) * DEG;
+  const omega = (124.7746 - 1.56375588 * k + 0.0020672 * t2 + 0.00000215 * t3) * DEG;
+
+  const correction =
+    -0.4072 * Math.sin(mp) +
+    0.17241 * e * Math.sin(m) +
+    0.01608 * Math.sin(2 * mp) +
+    0.01039 * Math.sin(2 * f) +
+    0.00739 * e * Math.sin(mp - m) -
+    0.00514 * e * Math.sin(mp + m) +
+    0.00208 * e * e * Math.sin(2 * m) -
+    0.00111 * Math.sin(mp - 2 * f) -
+    0.00057 * Math.sin(mp + 2 * f) +
+    0.00056 * e * Math.sin(2 * mp + m) -
+    0.00042 * Math.sin(3 * mp) +
+    0.00042 * e * Math.sin(m + 2 * f) +
+    0.00038 * e * Math.sin(m - 2 * f) -
+    0.00024 * e * Math.sin(2 * mp - m) -
+    0.00017 * Math.sin(omega);
+
+  return jde + correction;
+}
+
+// Moon age in days (time since the most recent new moon)
+export function moonAge(date: Date): number {
+  const jd = toJulianDay(date);
+  let k = Math.floor((jd - 2451550.09766) / SYNODIC_MONTH);
+  let last = newMoonJde(k);
+  if (last > jd) {
+    k -= 1;
+    last = newMoonJde(k);
+  } else {
+    const next = newMoonJde(k + 1);
+    if (next <= jd) last = next;
+  }
+  return jd - last;
+}
+
+export function moonPhase(age: number): MoonPhase {
+  if (age < 1.5) return { name: "新月", icon: "🌑" };
+  if (age < 6) return { name: "三日月", icon: "🌒" };
+  if (age < 9) return { name: "上弦", icon: "🌓" };
+  if (age < 13.5) return { name: "十三夜", icon: "🌔" };
+  if (age < 16.5) return { name: "満月", icon: "🌕" };
+  if (age < 21) return { name: "寝待月", icon: "🌖" };
+  if (age < 24) return { name: "下弦", icon: "🌗" };
+  if (age < 28) return { name: "有明月", icon: "🌘" };
+  return { name: "新月", icon: "🌑" };
+}
+
+// 潮回り by integer moon age (0–29), following the usual Japanese tide-table convention
+const TIDE_NAME_BY_AGE: TideName[] = [
+  "大潮", "大潮", "大潮", "中潮", "中潮", "中潮", "中潮", "小潮", "小潮", "小潮",
+  "長潮", "若潮", "中潮", "中潮", "大潮", "大潮", "大潮", "大潮", "中潮", "中潮",
+  "中潮", "中潮", "小潮", "小潮", "小潮", "長潮", "若潮", "中潮", "中潮", "大潮",
+];
+
+export function classifyTideName(age: number): TideName {
+  return TIDE_NAME_BY_AGE[Math.floor(age) % 30];
+}
+
+// Moon information for a YYYY-MM-DD date. 潮回り is judged by the moon age at noon JST.
+export function moonInfoForDate(dateKey: string): MoonInfo {
+  const age = moonAge(new Date(`${dateKey}T12:00:00+09:00`));
+  return {
+    age,
+    illumination: (1 - Math.cos((2 * Math.PI * age) / SYNODIC_MONTH)) / 2,
+    phase: moonPhase(age),
+    tideName: classifyTideName(age),
+  };
+}
+
+export function tideNameForDate(dateKey: string): TideName {
+  return moonInfoForDate(dateKey).tideName;
+}
@@ -0,0 +1,167 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { RecordInput } from "./fishing-records";
+import type { PreparedPhoto } from "./photos";
+import { getPhotoStorage, uploadPhotos } from "./photo-storage";
+import { runTransaction, PENDING_RECORDS_STORE } from "./local-db";
+
+// IndexedDB-backed outbox for fishing records. New records are written here
+// first and pushed to fishing_records when the network is available.
+//
+// Records carry a client-generated id, so a retry after a lost response is an
+// idempotent upsert: if the row already reached the server it is left as is
+// (server wins) and the local copy is dropped. Attached photos are kept as
+// blobs alongside the record and uploaded right before it.
+
+export type PendingRecord = {
+  id: string;
+  fields: RecordInput & { id: string };
+  // Absent on entries queued before photo support
+  photos?: PreparedPhoto[];
+  createdAt: number;
+  attempts: number;
+  nextAttemptAt: number;
+  status: "pending" | "failed";
+  lastError: string | null;
+};
+
+
+const BASE_RETRY_MS = 30 * 1000;
+const MAX_RETRY_MS = 30 * 60 * 1000;
+
+export function isOfflineQueueAvailable(): boolean {
+  return typeof indexedDB !== "undefined";
+}
+
+export async function listPendingRecords(): Promise<PendingRecord[]> {
+  const all = await runTransaction<PendingRecord[]>(PENDING_RECORDS_STORE, "readonly", (store) => store.getAll());
+  return (all ?? []).sort((a, b) => a.createdAt - b.createdAt);
+}
+
+export async function enqueueRecord(
+  fields: RecordInput,
+  photos: PreparedPhoto[] = []
+): Promise<PendingRecord> {
+  const id = crypto.randomUUID();
+  const entry: PendingRecord = {
+    id,
+    fields: { ...fields, id },
+    photos,
+    createdAt: Date.now(),
+    attempts: 0,
+    nextAttemptAt: 0,
+    status: "pending",
+    lastError: null,
+  };
+  await runTransaction(PENDING_RECORDS_STORE, "readwrite", (store) => store.put(entry));
+  return entry;
+}
+
+export async function removePendingRecord(id: string): Promise<void> {
+  await runTransaction(PENDING_RECORDS_STORE, "readwrite", (store) => store.delete(id));
+}
+
+// Put a failed record back in the queue for an immediate retry
+export async function retryPendingRecord(id: string): Promise<void> {
+  const entry = await runTransaction<PendingRecord | undefined>(PENDING_RECORDS_STORE, "readonly", (store) =>
+    store.get(id)
+  );
+  if (!entry) return;
+  await runTransaction(PENDING_RECORDS_STORE, "readwrite", (store) =>
+    store.put({ ...entry, status: "pending", nextAttemptAt: 0, lastError: null })
+  );
+}
+
+type SyncError = { code?: string; status?: number; message?: string };
+
+// An expired or rejected access token, e.g. after a long time offline. The
+// session is refreshed and the record retried rather than marked as failed.
+function isAuthError(error: SyncError): boolean {
+  if (error.status === 401) return true;
+  if (error.code === "PGRST301" || error.code === "PGRST303") return true;
+  return /jwt expired/i.test(error.message ?? "");
+}
+
+// Errors that will not go away by retrying (bad data, constraint or
+// permission errors) mark the record as failed instead of backing off.
+function isPermanentError(error: SyncError): boolean {
+  if (isAuthError(error)) return false;
+  if (error.code && /^(22|23|42)/.test(error.code)) return true;
+  return error.status !== undefined && error.status >= 400 && error.status < 500 && error.status !== 408 && error.status !== 429;
+}
+
+export type SyncResult = { synced: number; remaining: number };
+
+let syncing: Promise<SyncResult> | null = null;
+
+// Push the signed-in angler's due records to Supabase. Records queued by
+// another account on this device wait until that account signs in again.
+// Concurrent calls share one run.
+export function syncPendingRecords(client: SupabaseClient, userId: string): Promise<SyncResult> {
+  if (!syncing) {
+    syncing = doSync(client, userId).finally(() => {
+      syncing = null;
+    });
+  }
+  return syncing;
+}
+
+// Uploads the entry's photos and the record; null on success
+async function pushEntry(client: SupabaseClient, userId: string, entry: PendingRecord): Promise<SyncError | null> {
+  try {
+    let fields = entry.fields;
+    if (entry.photos?.length) {
+      // Uploads overwrite, so a retry after a partial upload is safe
+      const photos = await uploadPhotos(getPhotoStorage(client), userId, entry.id, entry.photos);
+      fields = { ...fields, photos };
+    }
+    const { error, status } = await client
+      .from("fishing_records")
+      .upsert(fields, { onConflict: "id", ignoreDuplicates: true });
+    return error ? { code: error.code, status, message: error.message } : null;
+  } catch (e) {
+    // Network failures have no status and are retried later; storage
+    // errors carry one and are classified like database errors
+    const err = e as { message?: string; status?: number };
+    return { status: err.status, message: err.message };
+  }
+}
+
+async function doSync(client: SupabaseClient, userId: string): Promise<SyncResult> {
+  const entries = await listPendingRecords();
+  const now = Date.now();
+  let synced = 0;
+
+  for (const entry of entries) {
+    if (entry.fields.user_id !== userId) continue;
+    if (entry.status !== "pending" || entry.nextAttemptAt > now) continue;
+    if (typeof navigator !== "undefined" && !navigator.onLine) break;
+
+    let error = await pushEntry(client, userId, entry);
+    if (error && isAuthError(error)) {
+      // One retry with a fresh token; if the refresh fails too the record backs off as usual
+      const { error: refreshError } = await client.auth.refreshSession();
+      if (!refreshError) error = await pushEntry(client, userId, entry);
+    }
+    const failure = error && { message: error.message ?? "network error", permanent: isPermanentError(error) };
+
+    if (!failure) {
+      await removePendingRecord(entry.id);
+      synced++;
+      continue;
+    }
+
+    const attempts = entry.attempts + 1;
+    await runTransaction(PENDING_RECORDS_STORE, "readwrite", (store) =>
+      store.put({
+        ...entry,
+        attempts,
+        lastError: failure.message,
+        status: failure.permanent ? "failed" : "pending",
+        nextAttemptAt: now + Math.min(BASE_RETRY_MS * 2 ** (attempts - 1), MAX_RETRY_MS),
+      })
+    );
+  }
+
+  const remaining = (await listPendingRecords()).length;
+  return { synced, remaining };
+}
@@ -0,0 +1,130 @@
+import { useEffect, useState } from "react";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { runTransaction, PHOTO_STORE } from "./local-db";
+import { getSupabase } from "./supabase";
+import { photoPaths, PreparedPhoto, RecordPhoto } from "./photos";
+
+// Where photo files live. Supabase Storage is the default; setting
+// NEXT_PUBLIC_PHOTO_STORAGE=local keeps them in this browser's IndexedDB,
+// which is handy with the mock server or without a storage bucket.
+export interface PhotoStorage {
+  upload(path: string, blob: Blob): Promise<void>;
+  // Displayable URLs keyed by path; unknown paths are left out
+  getUrls(paths: string[]): Promise<Record<string, string>>;
+  remove(paths: string[]): Promise<void>;
+}
+
+export const PHOTO_BUCKET = "record-photos";
+
+const SIGNED_URL_TTL_SECONDS = 60 * 60;
+
+function supabaseStorage(client: SupabaseClient): PhotoStorage {
+  const bucket = () => client.storage.from(PHOTO_BUCKET);
+  return {
+    async upload(path, blob) {
+      const { error } = await bucket().upload(path, blob, { contentType: "image/jpeg", upsert: true });
+      if (error) throw error;
+    },
+    async getUrls(paths) {
+      if (paths.length === 0) return {};
+      // The bucket is private, so reads go through short-lived signed URLs
+      const { data, error } = await bucket().createSignedUrls(paths, SIGNED_URL_TTL_SECONDS);
+      if (error) throw error;
+      const urls: Record<string, string> = {};
+      for (const item of data) {
+        if (item.path && item.signedUrl) urls[item.path] = item.signedUrl;
+      }
+      return urls;
+    },
+    async remove(paths) {
+      if (paths.length === 0) return;
+      const { error } = await bucket().remove(paths);
+      if (error) throw error;
+    },
+  };
+}
+
+// Object URLs are created once per path and reused for the page's lifetime
+const localUrls = new Map<string, string>();
+
+const localStorageBackend: PhotoStorage = {
+  async upload(path, blob) {
+    await runTransaction(PHOTO_STORE, "readwrite", (store) => store.put(blob, path));
+    const stale = localUrls.get(path);
+    if (stale) URL.revokeObjectURL(stale);
+    localUrls.delete(path);
+  },
+  async getUrls(paths) {
+    const urls: Record<string, string> = {};
+    for (const path of paths) {
+      let url = localUrls.get(path);
+      if (!url) {
+        const blob = await runTransaction<Blob>(PHOTO_STORE, "readonly", (store) => store.get(path));
+        if (!blob) continue;
+        url = URL.createObjectURL(blob);
+        localUrls.set(path, url);
+      }
+      urls[path] = url;
+    }
+    return urls;
+  },
+  async remove(paths) {
+    await runTransaction(PHOTO_STORE, "readwrite", (store) => {
+      for (const path of paths) store.delete(path);
+    });
+    for (const path of paths) {
+      const url = localUrls.get(path);
+      if (url) URL.revokeObjectURL(url);
+      localUrls.delete(path);
+    }
+  },
+};
+
+export function getPhotoStorage(client: SupabaseClient): PhotoStorage {
+  return process.env.NEXT_PUBLIC_PHOTO_STORAGE === "local" ? localStorageBackend : supabaseStorage(client);
+}
+
+// Upload full-size and thumbnail files; returns the metadata to store on the record
+export async function uploadPhotos(
+  storage: PhotoStorage,
+  userId: string,
+  recordId: string,
+  photos: PreparedPhoto[]
+): Promise<RecordPhoto[]> {
+  const uploaded: RecordPhoto[] = [];
+  for (const photo of photos) {
+    const { path, thumbPath } = photoPaths(userId, recordId, photo.id);
+    await storage.upload(path, photo.full);
+    await storage.upload(thumbPath, photo.thumb);
+    uploaded.push({ path, thumbPath, width: photo.width, height: photo.height });
+  }
+  return uploaded;
+}
+
+export function photoFilePaths(photos: RecordPhoto[]): string[] {
+  return photos.flatMap((p) => [p.path, p.thumbPath]);
+}
+
+// Resolve storage paths to displayable URLs
+export function usePhotoUrls(paths: string[]): Record<string, string> {
+  const [urls, setUrls] = useState<Record<string, string>>({});
+  const key = paths.join("|");
+
+  useEffect(() => {
+    if (!key) return;
+    let cancelled = false;
+    const client = getSupabase();
+    if (!client) return;
+    getPhotoStorage(client)
+      .getUrls(key.split("|"))
+      .then((resolved) => {
+        if (!cancelled) setUrls(resolved);
+      })
+      .catch((error) => console.error("Photo URL error:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [key]);
+
+  return urls;
+}
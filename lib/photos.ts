@@ -0,0 +1,80 @@
+// Photo attachments for fishing records. Images are re-encoded on the client
+// before upload: drawing onto a canvas and exporting a new JPEG drops all
+// EXIF metadata (GPS position, camera serials) and bounds the file size.
+
+// Stored in fishing_records.photos (jsonb); paths are relative to the bucket
+export type RecordPhoto = {
+  path: string;
+  thumbPath: string;
+  width: number;
+  height: number;
+};
+
+// A photo that has been processed on the device but not uploaded yet
+export type PreparedPhoto = {
+  id: string;
+  full: Blob;
+  thumb: Blob;
+  width: number;
+  height: number;
+};
+
+export const MAX_PHOTOS_PER_RECORD = 6;
+
+const FULL_MAX_PX = 1600;
+const THUMB_MAX_PX = 320;
+const FULL_QUALITY = 0.85;
+const THUMB_QUALITY = 0.75;
+
+function encode(
+  bitmap: ImageBitmap,
+  maxPx: number,
+  quality: number
+): Promise<{ blob: Blob; width: number; height: number }> {
+  const scale = Math.min(1, maxPx / Math.max(bitmap.width, bitmap.height));
+  const width = Math.round(bitmap.width * scale);
+  const height = Math.round(bitmap.height * scale);
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return Promise.reject(new Error("画像を処理できません"));
+  ctx.drawImage(bitmap, 0, 0, width, height);
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve({ blob, width, height }) : reject(new Error("画像を変換できません"))),
+      "image/jpeg",
+      quality
+    );
+  });
+}
+
+// Resize to a full-size and a thumbnail JPEG. EXIF orientation is applied
+// while decoding so portrait shots stay upright once the tag is gone.
+export async function preparePhoto(file: File): Promise<PreparedPhoto> {
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(file, { imageOrientation: "from-image" });
+  } catch {
+    throw new Error(`${file.name} を読み込めませんでした（JPEG/PNG/WebPに対応）`);
+  }
+  try {
+    const full = await encode(bitmap, FULL_MAX_PX, FULL_QUALITY);
+    const thumb = await encode(bitmap, THUMB_MAX_PX, THUMB_QUALITY);
+    return {
+      id: crypto.randomUUID(),
+      full: full.blob,
+      thumb: thumb.blob,
+      width: full.width,
+      height: full.height,
+    };
+  } finally {
+    bitmap.close();
+  }
+}
+
+// Objects live under <user id>/<record id>/ so storage policies can check ownership
+export function photoPaths(userId: string, recordId: string, photoId: string) {
+  const base = `${userId}/${recordId}/${photoId}`;
+  return { path: `${base}.jpg`, thumbPath: `${base}_thumb.jpg` };
+}
@@ -0,0 +1,149 @@
+import type { HarmonicConstants } from "./tide-harmonics";
+
+export type PortId = "akashi" | "iwaya" | "kobe" | "suma" | "himeji";
+
+export type Port = {
+  id: PortId;
+  name: string;
+  area: string;
+  // tide736.net prefecture / harbour codes
+  pc: string;
+  hc: string;
+  lat: number;
+  lng: number;
+  // Approximate constants for the offline predictor (rounded, planning use only)
+  harmonics: HarmonicConstants;
+};
+
+export const PORTS: Port[] = [
+  {
+    id: "akashi",
+    name: "明石",
+    area: "明石海峡",
+    pc: "28",
+    hc: "2030",
+    lat: 34.643,
+    lng: 134.995,
+    harmonics: {
+      meanLevel: 90,
+      constituents: [
+        { name: "M2", amplitude: 28.0, phase: 253 },
+        { name: "S2", amplitude: 11.5, phase: 283 },
+        { name: "N2", amplitude: 5.3, phase: 245 },
+        { name: "K2", amplitude: 3.2, phase: 280 },
+        { name: "K1", amplitude: 24.0, phase: 208 },
+        { name: "O1", amplitude: 19.0, phase: 188 },
+        { name: "P1", amplitude: 7.6, phase: 205 },
+        { name: "Q1", amplitude: 3.6, phase: 182 },
+        { name: "M4", amplitude: 1.5, phase: 100 },
+        { name: "MS4", amplitude: 1.0, phase: 140 },
+      ],
+    },
+  },
+  {
+    id: "iwaya",
+    name: "岩屋",
+    area: "淡路島北端",
+    pc: "28",
+    hc: "2038",
+    lat: 34.589,
+    lng: 135.019,
+    harmonics: {
+      meanLevel: 88,
+      constituents: [
+        { name: "M2", amplitude: 27.0, phase: 250 },
+        { name: "S2", amplitude: 11.0, phase: 280 },
+        { name: "N2", amplitude: 5.1, phase: 242 },
+        { name: "K2", amplitude: 3.0, phase: 277 },
+        { name: "K1", amplitude: 23.6, phase: 207 },
+        { name: "O1", amplitude: 18.8, phase: 187 },
+        { name: "P1", amplitude: 7.5, phase: 204 },
+        { name: "Q1", amplitude: 3.6, phase: 181 },
+        { name: "M4", amplitude: 1.6, phase: 95 },
+        { name: "MS4", amplitude: 1.1, phase: 135 },
+      ],
+    },
+  },
+  {
+    id: "kobe",
+    name: "神戸",
+    area: "大阪湾",
+    pc: "28",
+    hc: "2007",
+    lat: 34.678,
+    lng: 135.19,
+    harmonics: {
+      meanLevel: 94,
+      constituents: [
+        { name: "M2", amplitude: 32.5, phase: 238 },
+        { name: "S2", amplitude: 13.6, phase: 266 },
+        { name: "N2", amplitude: 6.2, phase: 230 },
+        { name: "K2", amplitude: 3.8, phase: 263 },
+        { name: "K1", amplitude: 25.3, phase: 205 },
+        { name: "O1", amplitude: 19.9, phase: 185 },
+        { name: "P1", amplitude: 8.0, phase: 202 },
+        { name: "Q1", amplitude: 3.8, phase: 179 },
+        { name: "M4", amplitude: 1.2, phase: 80 },
+        { name: "MS4", amplitude: 0.8, phase: 120 },
+      ],
+    },
+  },
+  {
+    id: "suma",
+    name: "須磨",
+    area: "大阪湾西部",
+    pc: "28",
+    hc: "2024",
+    lat: 34.638,
+    lng: 135.123,
+    harmonics: {
+      meanLevel: 92,
+      constituents: [
+        { name: "M2", amplitude: 30.5, phase: 244 },
+        { name: "S2", amplitude: 12.7, phase: 273 },
+        { name: "N2", amplitude: 5.8, phase: 236 },
+        { name: "K2", amplitude: 3.5, phase: 270 },
+        { name: "K1", amplitude: 24.8, phase: 206 },
+        { name: "O1", amplitude: 19.5, phase: 186 },
+        { name: "P1", amplitude: 7.8, phase: 203 },
+        { name: "Q1", amplitude: 3.7, phase: 180 },
+        { name: "M4", amplitude: 1.4, phase: 90 },
+        { name: "MS4", amplitude: 0.9, phase: 130 },
+      ],
+    },
+  },
+  {
+    id: "himeji",
+    name: "姫路（飾磨）",
+    area: "播磨灘",
+    pc: "28",
+    hc: "2045",
+    lat: 34.776,
+    lng: 134.668,
+    harmonics: {
+      meanLevel: 105,
+      constituents: [
+        { name: "M2", amplitude: 43.0, phase: 262 },
+        { name: "S2", amplitude: 17.5, phase: 294 },
+        { name: "N2", amplitude: 8.1, phase: 254 },
+        { name: "K2", amplitude: 4.9, phase: 291 },
+        { name: "K1", amplitude: 26.0, phase: 212 },
+        { name: "O1", amplitude: 20.2, phase: 191 },
+        { name: "P1", amplitude: 8.2, phase: 209 },
+        { name: "Q1", amplitude: 3.9, phase: 185 },
+        { name: "M4", amplitude: 2.0, phase: 115 },
+        { name: "MS4", amplitude: 1.3, phase: 155 },
+      ],
+    },
+  },
+];
+
+export const DEFAULT_PORT_ID: PortId = "akashi";
+
+export function isPortId(value: string | null | undefined): value is PortId {
+  return PORTS.some((p) => p.id === value);
+}
+
+export function getPort(id: PortId): Port {
+  return PORTS.find((p) => p.id === id) ?? PORTS[0];
+}
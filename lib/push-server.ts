@@ -0,0 +1,57 @@
+import webpush from "web-push";
+import type { Port } from "./ports";
+import type { TideDay } from "./tide-api";
+import type { FlowAlert } from "./flow-alerts";
+import type { PushSubscriptionRow } from "./supabase";
+import { isTideError, loadDay } from "./tide-upstream";
+import { jstDateKey } from "./tide-timeline";
+
+// Server side of the flow alerts: tide days to compute them from and Web Push
+// delivery. Server-only (VAPID private key).
+
+const VAPID_PUBLIC_KEY = process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY ?? "";
+const VAPID_PRIVATE_KEY = process.env.VAPID_PRIVATE_KEY ?? "";
+const VAPID_SUBJECT = process.env.VAPID_SUBJECT ?? "mailto:admin@example.com";
+
+// A late or missed run never delivers alerts older than this
+const MAX_CATCH_UP_MS = 30 * 60 * 1000;
+// Alerts that could not be delivered in time are useless later
+const PUSH_TTL_SECONDS = 30 * 60;
+
+export function isWebPushConfigured(): boolean {
+  return Boolean(VAPID_PUBLIC_KEY && VAPID_PRIVATE_KEY);
+}
+
+// Start of the window to deliver, given when the subscription was last checked
+export function catchUpSince(lastChecked: string | null, now: Date): Date {
+  const floor = now.getTime() - MAX_CATCH_UP_MS;
+  const last = lastChecked ? new Date(lastChecked).getTime() : NaN;
+  return new Date(Number.isNaN(last) ? floor : Math.max(last, floor));
+}
+
+// Yesterday to tomorrow (JST): covers flow running across midnight and alerts
+// fired ahead of events early tomorrow. Upstream problems fall back to the harmonic prediction.
+export async function alertDays(port: Port, now: Date): Promise<TideDay[]> {
+  const dates = [-1, 0, 1].map((offset) => jstDateKey(new Date(now.getTime() + offset * 86400000)));
+  const days = await Promise.all(dates.map((date) => loadDay(port, date, "auto", () => null)));
+  return days.filter((day): day is TideDay => !isTideError(day));
+}
+
+// "gone" means the browser dropped the subscription and the row should be deleted
+export async function sendWebPush(row: PushSubscriptionRow, alert: FlowAlert): Promise<"sent" | "gone"> {
+  try {
+    await webpush.sendNotification(
+      { endpoint: row.endpoint, keys: { p256dh: row.p256dh, auth: row.auth } },
+      JSON.stringify({ title: alert.title, body: alert.body, tag: alert.tag, url: "/" }),
+      {
+        TTL: PUSH_TTL_SECONDS,
+        vapidDetails: { subject: VAPID_SUBJECT, publicKey: VAPID_PUBLIC_KEY, privateKey: VAPID_PRIVATE_KEY },
+      }
+    );
+    return "sent";
+  } catch (error) {
+    const status = (error as { statusCode?: number }).statusCode;
+    if (status === 404 || status === 410) return "gone";
+    throw error;
+  }
+}
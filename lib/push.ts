@@ -0,0 +1,130 @@
+"use client";
+
+import { useEffect } from "react";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { AlertRule, FlowAlert } from "./flow-alerts";
+import { isAlertRule } from "./flow-alerts";
+import { isPortId, PortId } from "./ports";
+import { registerServiceWorker } from "./service-worker";
+
+// Flow alert subscriptions. With NEXT_PUBLIC_VAPID_PUBLIC_KEY set, alerts are
+// real Web Push messages sent by /api/push/dispatch to subscriptions stored in
+// push_subscriptions. Without it a local stand-in is used for development:
+// while the app is open it polls /api/push/pull and shows the returned alerts
+// through the same service worker. The poll also runs alongside Web Push as a
+// catch-up for deployments where dispatch is not scheduled every few minutes;
+// both deliver an alert under the same tag, so it is shown once.
+
+const VAPID_PUBLIC_KEY = process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY ?? "";
+
+export type PushMode = "webpush" | "local";
+export const PUSH_MODE: PushMode = VAPID_PUBLIC_KEY ? "webpush" : "local";
+
+export type PushSettings = {
+  portId: PortId;
+  rules: AlertRule[];
+};
+
+const SETTINGS_KEY = "akashi-tide:push";
+const LOCAL_SINCE_KEY = "akashi-tide:push-since";
+const LOCAL_POLL_INTERVAL_MS = 60000;
+
+export function isPushSupported(): boolean {
+  if (typeof window === "undefined") return false;
+  if (!("serviceWorker" in navigator) || !("Notification" in window)) return false;
+  return PUSH_MODE === "local" || "PushManager" in window;
+}
+
+// Settings of this device; null when alerts are off
+export function loadPushSettings(): PushSettings | null {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(SETTINGS_KEY) ?? "null");
+    if (!parsed || !isPortId(parsed.portId) || !Array.isArray(parsed.rules)) return null;
+    return { portId: parsed.portId, rules: parsed.rules.filter(isAlertRule) };
+  } catch {
+    return null;
+  }
+}
+
+// Turns alerts on, or updates the rules when they are already on. Web Push
+// subscriptions belong to the signed-in angler (RLS), so client must carry a session.
+export async function enablePush(settings: PushSettings, client: SupabaseClient | null): Promise<void> {
+  const permission = await Notification.requestPermission();
+  if (permission !== "granted") throw new Error("通知が許可されていません。ブラウザの設定から許可してください");
+  const registration = await registerServiceWorker();
+
+  if (PUSH_MODE === "webpush") {
+    if (!client) throw new Error("通知の登録にはSupabaseの設定が必要です");
+    const subscription =
+      (await registration.pushManager.getSubscription()) ??
+      (await registration.pushManager.subscribe({
+        userVisibleOnly: true,
+        applicationServerKey: VAPID_PUBLIC_KEY,
+      }));
+    const { endpoint, keys } = subscription.toJSON();
+    if (!endpoint || !keys?.p256dh || !keys.auth) throw new Error("プッシュ通知の登録に失敗しました");
+    const { error } = await client.from("push_subscriptions").upsert(
+      { endpoint, p256dh: keys.p256dh, auth: keys.auth, port_id: settings.portId, rules: settings.rules },
+      { onConflict: "endpoint" }
+    );
+    if (error) throw error;
+  }
+  if (!loadPushSettings()) localStorage.setItem(LOCAL_SINCE_KEY, new Date().toISOString());
+
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+}
+
+export async function disablePush(client: SupabaseClient | null): Promise<void> {
+  localStorage.removeItem(SETTINGS_KEY);
+  localStorage.removeItem(LOCAL_SINCE_KEY);
+  if (PUSH_MODE !== "webpush") return;
+  const registration = await navigator.serviceWorker.getRegistration();
+  const subscription = await registration?.pushManager.getSubscription();
+  if (!subscription) return;
+  if (client) {
+    const { error } = await client.from("push_subscriptions").delete().eq("endpoint", subscription.endpoint);
+    if (error) throw error;
+  }
+  await subscription.unsubscribe();
+}
+
+async function showAlert(registration: ServiceWorkerRegistration, alert: Pick<FlowAlert, "title" | "body" | "tag">) {
+  await registration.showNotification(alert.title, { body: alert.body, tag: alert.tag, data: { url: "/" } });
+}
+
+export async function showTestNotification(): Promise<void> {
+  const registration = await registerServiceWorker();
+  await showAlert(registration, { title: "テスト通知", body: "潮流アラートはこのように表示されます", tag: "test" });
+}
+
+// Polls for alerts that came due since the last check while the app is open:
+// the local push stand-in, and a catch-up for Web Push
+export function useLocalPush(): void {
+  useEffect(() => {
+    if (!isPushSupported()) return;
+
+    const poll = async () => {
+      const settings = loadPushSettings();
+      if (!settings || Notification.permission !== "granted") return;
+      const since = localStorage.getItem(LOCAL_SINCE_KEY) ?? new Date().toISOString();
+      try {
+        const res = await fetch("/api/push/pull", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ port: settings.portId, rules: settings.rules, since }),
+        });
+        if (!res.ok) return;
+        const { until, alerts } = (await res.json()) as { until: string; alerts: FlowAlert[] };
+        const registration = await registerServiceWorker();
+        for (const alert of alerts) await showAlert(registration, alert);
+        localStorage.setItem(LOCAL_SINCE_KEY, until);
+      } catch (error) {
+        console.error("Local push poll failed:", error);
+      }
+    };
+
+    poll();
+    const interval = setInterval(poll, LOCAL_POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, []);
+}
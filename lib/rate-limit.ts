@@ -0,0 +1,41 @@
+// In-memory token bucket per client key. State lives in the server instance,
+// so on serverless platforms each instance enforces its own limit.
+
+const MAX_TRACKED_CLIENTS = 10000;
+
+export type RateLimiter = {
+  // Takes `cost` tokens; returns 0 when allowed, otherwise seconds until enough tokens refill
+  take(key: string, cost?: number): number;
+};
+
+export function createRateLimiter(options: { capacity: number; refillPerMinute: number }): RateLimiter {
+  const buckets = new Map<string, { tokens: number; updatedAt: number }>();
+  const refillPerMs = options.refillPerMinute / 60000;
+
+  return {
+    take(key, cost = 1) {
+      const now = Date.now();
+      if (buckets.size > MAX_TRACKED_CLIENTS) {
+        // Forget clients whose bucket has refilled completely; they start full anyway
+        buckets.forEach((b, k) => {
+          if (b.tokens + (now - b.updatedAt) * refillPerMs >= options.capacity) buckets.delete(k);
+        });
+      }
+      const bucket = buckets.get(key) ?? { tokens: options.capacity, updatedAt: now };
+      bucket.tokens = Math.min(options.capacity, bucket.tokens + (now - bucket.updatedAt) * refillPerMs);
+      bucket.updatedAt = now;
+      buckets.set(key, bucket);
+
+      if (bucket.tokens >= cost) {
+        bucket.tokens -= cost;
+        return 0;
+      }
+      return Math.ceil((cost - bucket.tokens) / refillPerMs / 1000);
+    },
+  };
+}
+
+// Best-effort client identity behind Vercel's proxy
+export function clientKey(headers: Headers): string {
+  return headers.get("x-forwarded-for")?.split(",")[0].trim() || headers.get("x-real-ip") || "unknown";
+}
@@ -0,0 +1,348 @@
+import type { FishingRecord, FishingSpot } from "./supabase";
+import type { RecordInput } from "./fishing-records";
+import type { TideName } from "./moon";
+import { tideNameForDate } from "./moon";
+import { buildTideContext } from "./tide-context";
+import { harmonicTideDay } from "./tide-day";
+import { getPort, isPortId, PortId } from "./ports";
+
+// CSV/JSON export of fishing records, and CSV import with column mapping,
+// validation and duplicate detection. Pure apart from the download helper.
+
+// --- CSV text ---
+
+// Spreadsheet apps run cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function csvCell(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  let text = String(value);
+  if (typeof value === "string" && FORMULA_PREFIX.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(rows: unknown[][]): string {
+  // BOM so Excel opens the UTF-8 file with Japanese intact
+  return "\uFEFF" + rows.map((row) => row.map(csvCell).join(",")).join("\r\n") + "\r\n";
+}
+
+// RFC 4180 parser; comma or tab separated (tab when the header line has more tabs than commas)
+export function parseCsv(text: string): string[][] {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/));
+  const delimiter = (firstLine.match(/\t/g)?.length ?? 0) > (firstLine.match(/,/g)?.length ?? 0) ? "\t" : ",";
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === "") {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== "" || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  // Drop blank lines
+  return rows.filter((r) => r.some((c) => c.trim() !== ""));
+}
+
+// UTF-8 (with or without BOM), falling back to Shift_JIS as saved by Japanese Excel
+export function decodeCsv(buffer: ArrayBuffer): string {
+  try {
+    return new TextDecoder("utf-8", { fatal: true }).decode(buffer);
+  } catch {
+    return new TextDecoder("shift_jis").decode(buffer);
+  }
+}
+
+// --- Export ---
+
+type ExportColumn = { label: string; value: (record: FishingRecord, spotName: string | null) => unknown };
+
+// Headers double as import aliases, so an exported file imports back without remapping
+const EXPORT_COLUMNS: ExportColumn[] = [
+  { label: "日付", value: (r) => r.date },
+  { label: "時刻", value: (r) => r.time?.slice(0, 5) ?? null },
+  { label: "魚種", value: (r) => r.fish_type },
+  { label: "釣果数", value: (r) => r.fish_count },
+  { label: "潮回り", value: (r) => r.tide_type },
+  { label: "メモ", value: (r) => r.memo },
+  { label: "ポイント", value: (_, spot) => spot },
+  { label: "緯度", value: (r) => r.lat },
+  { label: "経度", value: (r) => r.lng },
+  { label: "共有", value: (r) => (r.shared ? "はい" : "いいえ") },
+  { label: "港", value: (r) => r.port_id },
+  { label: "上げ下げ", value: (r) => r.tide_phase },
+  { label: "潮流の向き", value: (r) => r.flow_direction },
+  { label: "潮流の強さ", value: (r) => r.flow_strength },
+  { label: "流速(kt)", value: (r) => r.flow_speed_knots },
+  { label: "潮位(cm)", value: (r) => r.tide_height_cm },
+  { label: "近い満干潮", value: (r) => r.nearest_event_type },
+  { label: "満干潮からの分", value: (r) => r.nearest_event_offset_min },
+  { label: "ID", value: (r) => r.id },
+  { label: "登録日時", value: (r) => r.created_at },
+];
+
+export function recordsToCsv(records: FishingRecord[], spots: FishingSpot[]): string {
+  const spotNames = new Map(spots.map((s) => [s.id, s.name]));
+  return toCsv([
+    EXPORT_COLUMNS.map((c) => c.label),
+    ...records.map((r) => EXPORT_COLUMNS.map((c) => c.value(r, r.spot_id ? spotNames.get(r.spot_id) ?? null : null))),
+  ]);
+}
+
+export function recordsToJson(records: FishingRecord[], spots: FishingSpot[]): string {
+  const spotNames = new Map(spots.map((s) => [s.id, s.name]));
+  const rows = records.map((r) => ({ ...r, spot_name: r.spot_id ? spotNames.get(r.spot_id) ?? null : null }));
+  return JSON.stringify({ version: 1, exported_at: new Date().toISOString(), records: rows }, null, 2);
+}
+
+export function downloadFile(filename: string, content: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+// --- Import ---
+
+export const IMPORT_FIELDS = [
+  { key: "date", label: "日付", aliases: ["日付", "date", "釣行日", "年月日"] },
+  { key: "time", label: "時刻", aliases: ["時刻", "time", "時間"] },
+  { key: "fish_type", label: "魚種", aliases: ["魚種", "fish_type", "魚", "species"] },
+  { key: "fish_count", label: "釣果数", aliases: ["釣果数", "fish_count", "数", "匹数", "count"] },
+  { key: "tide_type", label: "潮回り", aliases: ["潮回り", "tide_type", "潮", "潮名"] },
+  { key: "memo", label: "メモ", aliases: ["メモ", "memo", "備考", "notes"] },
+  { key: "spot", label: "ポイント", aliases: ["ポイント", "spot", "spot_name", "場所"] },
+  { key: "lat", label: "緯度", aliases: ["緯度", "lat", "latitude"] },
+  { key: "lng", label: "経度", aliases: ["経度", "lng", "lon", "longitude"] },
+  { key: "shared", label: "共有", aliases: ["共有", "shared"] },
+  { key: "port_id", label: "港", aliases: ["港", "port_id", "port"] },
+  { key: "tide_phase", label: "上げ下げ", aliases: ["上げ下げ", "tide_phase"] },
+  { key: "flow_direction", label: "潮流の向き", aliases: ["潮流の向き", "flow_direction", "潮流"] },
+  { key: "flow_strength", label: "潮流の強さ", aliases: ["潮流の強さ", "flow_strength"] },
+  { key: "flow_speed_knots", label: "流速(kt)", aliases: ["流速(kt)", "流速", "flow_speed_knots"] },
+  { key: "tide_height_cm", label: "潮位(cm)", aliases: ["潮位(cm)", "潮位", "tide_height_cm"] },
+  { key: "nearest_event_type", label: "近い満干潮", aliases: ["近い満干潮", "nearest_event_type"] },
+  { key: "nearest_event_offset_min", label: "満干潮からの分", aliases: ["満干潮からの分", "nearest_event_offset_min"] },
+] as const;
+
+export type ImportFieldKey = (typeof IMPORT_FIELDS)[number]["key"];
+
+// Column index per field, or null when the field is not in the file
+export type ColumnMapping = Record<ImportFieldKey, number | null>;
+
+const TIDE_CONTEXT_FIELDS = [
+  "port_id",
+  "tide_phase",
+  "flow_direction",
+  "flow_strength",
+  "flow_speed_knots",
+  "tide_height_cm",
+  "nearest_event_type",
+  "nearest_event_offset_min",
+] as const;
+
+function normalizeHeader(value: string): string {
+  return value.trim().toLowerCase().replace(/[\s　]/g, "").replace(/（/g, "(").replace(/）/g, ")");
+}
+
+export function guessMapping(headers: string[]): ColumnMapping {
+  const normalized = headers.map(normalizeHeader);
+  const mapping = {} as ColumnMapping;
+  for (const field of IMPORT_FIELDS) {
+    const index = normalized.findIndex((h) => field.aliases.some((a) => normalizeHeader(a) === h));
+    mapping[field.key] = index === -1 ? null : index;
+  }
+  return mapping;
+}
+
+export type ImportRow = {
+  line: number; // 1-based row of the file (header is row 1, blank lines skipped)
+  record: RecordInput | null; // null when the row has errors
+  errors: string[];
+  warnings: string[];
+  duplicate: boolean;
+};
+
+const TIDE_NAMES: TideName[] = ["大潮", "中潮", "小潮", "長潮", "若潮"];
+const FLOW_DIRECTIONS = ["南流（下げ潮）", "北流（上げ潮）", "転流"];
+const FLOW_STRENGTHS = ["強", "中", "弱"];
+const TRUE_VALUES = ["true", "1", "yes", "y", "はい", "○", "◯", "共有"];
+
+function parseDate(value: string): string | null {
+  const m = value.match(/^(\d{4})[-/.年](\d{1,2})[-/.月](\d{1,2})日?/);
+  if (!m) return null;
+  const [y, mo, d] = [Number(m[1]), Number(m[2]), Number(m[3])];
+  const date = new Date(Date.UTC(y, mo - 1, d));
+  if (date.getUTCFullYear() !== y || date.getUTCMonth() !== mo - 1 || date.getUTCDate() !== d) return null;
+  return `${y}-${String(mo).padStart(2, "0")}-${String(d).padStart(2, "0")}`;
+}
+
+function parseTime(value: string): string | null {
+  const m = value.match(/^(\d{1,2})[:時](\d{2})分?(?::\d{2})?$/);
+  if (!m || Number(m[1]) > 23 || Number(m[2]) > 59) return null;
+  return `${m[1].padStart(2, "0")}:${m[2]}`;
+}
+
+function parseNumber(value: string): number | null {
+  const n = Number(value.replace(/,/g, ""));
+  return value.trim() !== "" && Number.isFinite(n) ? n : null;
+}
+
+// Undo the formula guard added on export
+function unguard(value: string): string {
+  return value.startsWith("'") && FORMULA_PREFIX.test(value.slice(1)) ? value.slice(1) : value;
+}
+
+// Same catch = same day, time, species and count; time is compared to the minute
+export function duplicateKey(r: Pick<FishingRecord, "date" | "time" | "fish_type" | "fish_count">): string {
+  return [r.date, r.time?.slice(0, 5) ?? "", (r.fish_type ?? "").replace(/\s/g, ""), r.fish_count ?? ""].join("|");
+}
+
+export function validateRows(
+  rows: string[][],
+  mapping: ColumnMapping,
+  spots: FishingSpot[],
+  existingKeys: Set<string>
+): ImportRow[] {
+  const spotIds = new Map(spots.map((s) => [s.name.trim(), s.id]));
+  const seen = new Set(existingKeys);
+
+  return rows.map((values, i) => {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    const get = (key: ImportFieldKey) => {
+      const index = mapping[key];
+      return index === null ? "" : unguard((values[index] ?? "").trim());
+    };
+
+    const rawDate = get("date");
+    const date = parseDate(rawDate);
+    if (!rawDate) errors.push("日付がありません");
+    else if (!date) errors.push(`日付を読み取れません: ${rawDate}`);
+
+    const rawTime = get("time");
+    const time = rawTime ? parseTime(rawTime) : null;
+    if (rawTime && !time) errors.push(`時刻を読み取れません: ${rawTime}`);
+
+    const rawCount = get("fish_count").replace(/(匹|尾|本)$/, "");
+    const count = rawCount ? parseNumber(rawCount) : null;
+    if (rawCount && (count === null || count < 0 || !Number.isInteger(count))) {
+      errors.push(`釣果数は0以上の整数で指定してください: ${rawCount}`);
+    }
+
+    let lat = get("lat") ? parseNumber(get("lat")) : null;
+    let lng = get("lng") ? parseNumber(get("lng")) : null;
+    if (lat !== null && (lat < -90 || lat > 90)) errors.push(`緯度が範囲外です: ${lat}`);
+    if (lng !== null && (lng < -180 || lng > 180)) errors.push(`経度が範囲外です: ${lng}`);
+    if ((lat === null) !== (lng === null)) {
+      warnings.push("緯度と経度の片方しかないため位置は取り込みません");
+      lat = null;
+      lng = null;
+    }
+
+    let tideType: string | null = get("tide_type") || null;
+    if (tideType && !TIDE_NAMES.includes(tideType as TideName)) {
+      warnings.push(`潮回り「${tideType}」は不明なため日付から計算します`);
+      tideType = null;
+    }
+
+    const spotName = get("spot");
+    const spotId = spotName ? spotIds.get(spotName) ?? null : null;
+    if (spotName && !spotId) warnings.push(`ポイント「${spotName}」が見つからないため未設定にします`);
+
+    // Tide context columns, e.g. from a file exported here; unknown values are dropped
+    const context: RecordInput = {};
+    const portId = get("port_id");
+    if (portId) {
+      if (isPortId(portId)) context.port_id = portId;
+      else warnings.push(`港「${portId}」は未対応のため無視します`);
+    }
+    const pick = (key: "tide_phase" | "flow_direction" | "flow_strength", allowed: string[]) => {
+      const value = get(key);
+      if (!value) return;
+      if (allowed.includes(value)) context[key] = value;
+      else warnings.push(`${IMPORT_FIELDS.find((f) => f.key === key)?.label}「${value}」は無視します`);
+    };
+    pick("tide_phase", ["上げ", "下げ"]);
+    pick("flow_direction", FLOW_DIRECTIONS);
+    pick("flow_strength", FLOW_STRENGTHS);
+    const eventType = get("nearest_event_type");
+    if (eventType) {
+      const type = eventType === "満潮" ? "high" : eventType === "干潮" ? "low" : eventType;
+      if (type === "high" || type === "low") context.nearest_event_type = type;
+    }
+    const speed = get("flow_speed_knots");
+    if (speed) context.flow_speed_knots = parseNumber(speed);
+    // Integer columns: one fraction would make Postgres reject the whole insert batch
+    for (const key of ["tide_height_cm", "nearest_event_offset_min"] as const) {
+      const value = get(key);
+      if (!value) continue;
+      const n = parseNumber(value);
+      if (n === null || !Number.isInteger(n)) {
+        errors.push(`${IMPORT_FIELDS.find((f) => f.key === key)?.label}は整数で指定してください: ${value}`);
+      } else {
+        context[key] = n;
+      }
+    }
+
+    if (errors.length > 0 || !date) {
+      return { line: i + 2, record: null, errors, warnings, duplicate: false };
+    }
+
+    const record: RecordInput = {
+      date,
+      time,
+      fish_type: get("fish_type") || null,
+      fish_count: count,
+      tide_type: tideType ?? tideNameForDate(date),
+      memo: get("memo") || null,
+      spot_id: spotId,
+      lat,
+      lng,
+      ...context,
+    };
+    if (mapping.shared !== null) record.shared = TRUE_VALUES.includes(get("shared").toLowerCase());
+
+    const key = duplicateKey({ date, time, fish_type: record.fish_type ?? null, fish_count: count });
+    const duplicate = seen.has(key);
+    seen.add(key);
+    return { line: i + 2, record, errors, warnings, duplicate };
+  });
+}
+
+// Records with a time but no imported tide context get one from the harmonic
+// prediction, computed locally so large imports don't hit the tide API per row
+export function withTideContext(record: RecordInput, portId: PortId): RecordInput {
+  if (!record.date || !record.time) return record;
+  if (TIDE_CONTEXT_FIELDS.some((key) => record[key] != null)) return record;
+  const [h, m] = record.time.split(":").map(Number);
+  const day = harmonicTideDay(getPort(portId), record.date);
+  return { ...record, ...buildTideContext(day, portId, h * 60 + m) };
+}
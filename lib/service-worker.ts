@@ -0,0 +1,20 @@
+"use client";
+
+import { useEffect } from "react";
+
+// public/sw.js serves the app shell and map tiles offline and shows push alerts.
+// Offline caching is turned off in development (?offline=0) so hot reload
+// is never answered with stale chunks.
+const SW_URL = process.env.NODE_ENV === "production" ? "/sw.js" : "/sw.js?offline=0";
+
+export function registerServiceWorker(): Promise<ServiceWorkerRegistration> {
+  return navigator.serviceWorker.register(SW_URL);
+}
+
+// Registers the service worker once the page has loaded
+export function useServiceWorker(): void {
+  useEffect(() => {
+    if (!("serviceWorker" in navigator)) return;
+    registerServiceWorker().catch((error) => console.error("Service worker registration failed:", error));
+  }, []);
+}
@@ -0,0 +1,75 @@
+// Sunrise, sunset and civil twilight computed locally (no external API).
+// Solar position follows the NOAA solar calculator (after Meeus, "Astronomical
+// Algorithms" ch. 25 and 28); times are accurate to about a minute.
+
+export type SunTimes = {
+  // Minutes since midnight JST; null when the sun does not cross the altitude that day
+  dawn: number | null; // civil twilight begins (sun 6° below the horizon)
+  rise: number | null;
+  set: number | null;
+  dusk: number | null; // civil twilight ends
+};
+
+const DEG = Math.PI / 180;
+const JD_UNIX_EPOCH = 2440587.5;
+const JST_OFFSET_MIN = 9 * 60;
+
+// Zenith angles: refraction and the solar disc for rise/set, 6° below for civil twilight
+const ZENITH_RISE_SET = 90.833;
+const ZENITH_CIVIL = 96;
+
+// Declination (radians) and equation of time (minutes) at a Julian Day
+function solarPosition(jd: number): { declination: number; equationOfTime: number } {
+  const t = (jd - 2451545) / 36525;
+  const l0 = ((280.46646 + t * (36000.76983 + 0.0003032 * t)) % 360) * DEG;
+  const m = (357.52911 + t * (35999.05029 - 0.0001537 * t)) * DEG;
+  const e = 0.016708634 - t * (0.000042037 + 0.0000001267 * t);
+  const center =
+    (Math.sin(m) * (1.914602 - t * (0.004817 + 0.000014 * t)) +
+      Math.sin(2 * m) * (0.019993 - 0.000101 * t) +
+      Math.sin(3 * m) * 0.000289) *
+    DEG;
+  const omega = (125.04 - 1934.136 * t) * DEG;
+  const lambda = l0 + center - (0.00569 + 0.00478 * Math.sin(omega)) * DEG;
+  const epsilon0 = 23 + (26 + (21.448 - t * (46.815 + t * (0.00059 - t * 0.001813))) / 60) / 60;
+  const epsilon = (epsilon0 + 0.00256 * Math.cos(omega)) * DEG;
+
+  const declination = Math.asin(Math.sin(epsilon) * Math.sin(lambda));
+  const y = Math.tan(epsilon / 2) ** 2;
+  const equationOfTime =
+    (4 / DEG) *
+    (y * Math.sin(2 * l0) -
+      2 * e * Math.sin(m) +
+      4 * e * y * Math.sin(m) * Math.cos(2 * l0) -
+      0.5 * y * y * Math.sin(4 * l0) -
+      1.25 * e * e * Math.sin(2 * m));
+  return { declination, equationOfTime };
+}
+
+// Minutes since midnight JST of the morning (+1) or evening (-1) crossing
+function crossing(jd0: number, lat: number, lng: number, zenith: number, morning: boolean): number | null {
+  // Start from local noon, then recompute the solar position at the estimate
+  let utcMinutes = 720 - 4 * lng;
+  for (let i = 0; i < 3; i++) {
+    const { declination, equationOfTime } = solarPosition(jd0 + utcMinutes / 1440);
+    const cosHourAngle =
+      Math.cos(zenith * DEG) / (Math.cos(lat * DEG) * Math.cos(declination)) -
+      Math.tan(lat * DEG) * Math.tan(declination);
+    if (cosHourAngle < -1 || cosHourAngle > 1) return null;
+    const hourAngle = Math.acos(cosHourAngle) / DEG;
+    utcMinutes = 720 - 4 * (lng + (morning ? hourAngle : -hourAngle)) - equationOfTime;
+  }
+  return Math.round(utcMinutes + JST_OFFSET_MIN);
+}
+
+// date: YYYY-MM-DD (JST)
+export function sunTimesForDate(date: string, lat: number, lng: number): SunTimes {
+  const [yr, mn, dy] = date.split("-").map(Number);
+  const jd0 = Date.UTC(yr, mn - 1, dy) / 86400000 + JD_UNIX_EPOCH;
+  return {
+    dawn: crossing(jd0, lat, lng, ZENITH_CIVIL, true),
+    rise: crossing(jd0, lat, lng, ZENITH_RISE_SET, true),
+    set: crossing(jd0, lat, lng, ZENITH_RISE_SET, false),
+    dusk: crossing(jd0, lat, lng, ZENITH_CIVIL, false),
+  };
+}
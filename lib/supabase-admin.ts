@@ -0,0 +1,16 @@
+import { createClient, SupabaseClient } from "@supabase/supabase-js";
+
+// Service-role client for server jobs (tide cache, push dispatch). Bypasses RLS,
+// so it must never be imported from client components.
+
+let _admin: SupabaseClient | null = null;
+
+export function getServiceSupabase(): SupabaseClient | null {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL ?? "";
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY ?? "";
+  if (!url || !serviceKey) return null;
+  if (!_admin) {
+    _admin = createClient(url, serviceKey, { auth: { persistSession: false } });
+  }
+  return _admin;
+}
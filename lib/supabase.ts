@@ -1,4 +1,6 @@
 import { createClient, SupabaseClient } from "@supabase/supabase-js";
+import type { RecordPhoto } from "./photos";
+import type { AlertRule } from "./flow-alerts";
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL ?? "";
 const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY ?? "";
@@ -22,5 +24,49 @@ export type FishingRecord = {
   fish_count: number | null;
   fish_type: string | null;
   memo: string | null;
+  // Owner (auth.users.id); visible to the whole team when shared is true
+  user_id: string | null;
+  shared: boolean;
+  photos: RecordPhoto[];
+  // Where the fish was caught (WGS84), if recorded
+  lat: number | null;
+  lng: number | null;
+  spot_id: string | null;
+  // Tide context captured automatically when the record is saved
+  port_id: string | null;
+  tide_phase: string | null;
+  flow_direction: string | null;
+  flow_strength: string | null;
+  flow_speed_knots: number | null;
+  tide_height_cm: number | null;
+  nearest_event_type: string | null;
+  nearest_event_offset_min: number | null;
+  created_at: string;
+};
+
+export type FishingSpot = {
+  id: string;
+  user_id: string | null;
+  shared: boolean;
+  name: string;
+  lat: number | null;
+  lng: number | null;
+  depth_m: number | null;
+  notes: string | null;
+  // Flow conditions the spot fishes well on; empty means no preference
+  good_directions: string[];
+  good_strengths: string[];
+  created_at: string;
+};
+
+export type PushSubscriptionRow = {
+  endpoint: string;
+  user_id: string;
+  p256dh: string;
+  auth: string;
+  port_id: string;
+  rules: AlertRule[];
+  // Alerts due up to this instant have been sent
+  last_checked_at: string | null;
   created_at: string;
 };
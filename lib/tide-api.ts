@@ -0,0 +1,111 @@
+import type { TideEvent } from "./tide-utils";
+import type { MoonInfo, TideName } from "./moon";
+import type { PortId } from "./ports";
+
+// Response schema of GET /api/tide, shared by the route and its clients.
+// Bump TIDE_API_VERSION on any breaking change to these types.
+
+export const TIDE_API_VERSION = 1;
+
+export const TIDE_RANGES = ["day", "week", "month"] as const;
+export type TideRange = (typeof TIDE_RANGES)[number];
+
+// auto: tide736.net with harmonic fallback, tide736: upstream only, local: harmonic only
+export const TIDE_SOURCES = ["auto", "tide736", "local"] as const;
+export type TideSourceParam = (typeof TIDE_SOURCES)[number];
+
+export type TideErrorCode =
+  | "missing_parameter"
+  | "invalid_parameter"
+  | "unknown_port"
+  | "upstream_unavailable"
+  | "upstream_invalid"
+  | "rate_limited";
+
+export type TideError = {
+  code: TideErrorCode;
+  message: string;
+  // Validation problems, e.g. "tide.chart.2026-10-19.flood[0].cm: not a number"
+  details?: string[];
+};
+
+export type TidePort = {
+  id: PortId;
+  name: string;
+  area: string;
+  lat: number;
+  lng: number;
+};
+
+export type HourlyHeight = {
+  hour: number; // 0–23, JST
+  cm: number;
+};
+
+export type TideDay = {
+  date: string; // YYYY-MM-DD (JST)
+  source: "tide736" | "harmonic";
+  // Why tide736.net wasn't reached: harmonic prediction served in auto mode,
+  // or an earlier cached tide736 day served instead; null otherwise
+  fallback: TideError | null;
+  events: TideEvent[]; // sorted by time
+  hourly: HourlyHeight[]; // 24 entries
+  sun: { rise: string | null; set: string | null }; // HH:MM
+  moon: Omit<MoonInfo, "tideName">;
+  tideName: TideName;
+};
+
+export type TideResponse = {
+  version: typeof TIDE_API_VERSION;
+  range: TideRange;
+  port: TidePort;
+  days: TideDay[];
+};
+
+export type TideErrorResponse = {
+  version: typeof TIDE_API_VERSION;
+  error: TideError;
+};
+
+export class TideApiError extends Error {
+  constructor(
+    readonly code: TideErrorCode | "network_error",
+    message: string,
+    readonly status: number | null = null,
+    readonly details: string[] = []
+  ) {
+    super(message);
+    this.name = "TideApiError";
+  }
+}
+
+// Client for /api/tide. date is YYYY-MM-DD; throws TideApiError.
+export async function fetchTide(options: {
+  port: PortId;
+  date: string;
+  range?: TideRange;
+  source?: TideSourceParam;
+}): Promise<TideResponse> {
+  const [yr, mn, dy] = options.date.split("-");
+  const params = new URLSearchParams({ port: options.port, yr, mn, dy });
+  if (options.range && options.range !== "day") params.set("rg", options.range);
+  if (options.source && options.source !== "auto") params.set("source", options.source);
+
+  let res: Response;
+  try {
+    res = await fetch(`/api/tide?${params.toString()}`);
+  } catch (e) {
+    throw new TideApiError("network_error", (e as Error).message ?? "network error");
+  }
+  const body = (await res.json().catch(() => null)) as TideResponse | TideErrorResponse | null;
+  if (!res.ok || !body || "error" in body) {
+    const error = body && "error" in body ? body.error : null;
+    throw new TideApiError(
+      error?.code ?? "upstream_unavailable",
+      error?.message ?? `status ${res.status}`,
+      res.status,
+      error?.details
+    );
+  }
+  return body;
+}
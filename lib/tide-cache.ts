@@ -0,0 +1,102 @@
+import { promises as fs } from "fs";
+import path from "path";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { TideDay } from "./tide-api";
+import type { PortId } from "./ports";
+import { getServiceSupabase } from "./supabase-admin";
+
+// Persistent cache of validated tide736.net days, keyed by port and date.
+// Server-only: the Supabase backend uses the service role key and the file
+// backend writes to disk. Selected with TIDE_CACHE:
+//   supabase  tide_cache table (default when SUPABASE_SERVICE_ROLE_KEY is set)
+//   file      JSON files under TIDE_CACHE_DIR (default .tide-cache, for local use)
+//   off       no persistent cache
+
+export type CachedTideDay = {
+  day: TideDay;
+  fetchedAt: string; // ISO timestamp of the upstream fetch
+};
+
+export interface TideCache {
+  get(portId: PortId, date: string): Promise<CachedTideDay | null>;
+  set(portId: PortId, date: string, entry: CachedTideDay): Promise<void>;
+}
+
+// Predictions for a date do not change, but upcoming days are re-fetched
+// occasionally in case tide736.net corrects them. Past days are final.
+const REFRESH_AFTER_MS = 30 * 24 * 60 * 60 * 1000;
+
+function todayJst(): string {
+  return new Date(Date.now() + 9 * 60 * 60 * 1000).toISOString().split("T")[0];
+}
+
+export function isFresh(entry: CachedTideDay, date: string): boolean {
+  if (date < todayJst()) return true;
+  return Date.now() - new Date(entry.fetchedAt).getTime() < REFRESH_AFTER_MS;
+}
+
+function fileCache(dir: string): TideCache {
+  const fileFor = (portId: PortId, date: string) => path.join(dir, portId, `${date}.json`);
+  return {
+    async get(portId, date) {
+      try {
+        return JSON.parse(await fs.readFile(fileFor(portId, date), "utf8")) as CachedTideDay;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+        throw error;
+      }
+    },
+    async set(portId, date, entry) {
+      const file = fileFor(portId, date);
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      // Write then rename so a concurrent reader never sees a partial file
+      const tmp = `${file}.${process.pid}.tmp`;
+      await fs.writeFile(tmp, JSON.stringify(entry));
+      await fs.rename(tmp, file);
+    },
+  };
+}
+
+function supabaseCache(client: SupabaseClient): TideCache {
+  return {
+    async get(portId, date) {
+      const { data, error } = await client
+        .from("tide_cache")
+        .select("payload, fetched_at")
+        .eq("port_id", portId)
+        .eq("date", date)
+        .maybeSingle();
+      if (error) throw error;
+      return data ? { day: data.payload as TideDay, fetchedAt: data.fetched_at as string } : null;
+    },
+    async set(portId, date, entry) {
+      const { error } = await client
+        .from("tide_cache")
+        .upsert(
+          { port_id: portId, date, payload: entry.day, fetched_at: entry.fetchedAt },
+          { onConflict: "port_id,date" }
+        );
+      if (error) throw error;
+    },
+  };
+}
+
+let _cache: TideCache | null | undefined;
+
+export function getTideCache(): TideCache | null {
+  if (_cache !== undefined) return _cache;
+  const admin = getServiceSupabase();
+  const mode = process.env.TIDE_CACHE ?? (admin ? "supabase" : "file");
+
+  if (mode === "off") {
+    _cache = null;
+  } else if (mode === "supabase") {
+    if (!admin) {
+      console.error("TIDE_CACHE=supabase requires NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY");
+    }
+    _cache = admin ? supabaseCache(admin) : null;
+  } else {
+    _cache = fileCache(process.env.TIDE_CACHE_DIR ?? path.join(process.cwd(), ".tide-cache"));
+  }
+  return _cache;
+}
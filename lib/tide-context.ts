@@ -0,0 +1,89 @@
+import { estimateCurrentFlow, CurrentFlow, TideEvent } from "./tide-utils";
+import { fetchTide, HourlyHeight, TideDay } from "./tide-api";
+import { harmonicTideDay } from "./tide-day";
+import { getPort, PortId } from "./ports";
+
+// Tide conditions stored alongside a fishing record
+export type TideContext = {
+  port_id: PortId;
+  tide_phase: "上げ" | "下げ" | null;
+  flow_direction: CurrentFlow["direction"];
+  flow_strength: CurrentFlow["strength"];
+  flow_speed_knots: number;
+  tide_height_cm: number | null;
+  // Nearest high/low event and signed offset in minutes (negative = before it)
+  nearest_event_type: TideEvent["type"] | null;
+  nearest_event_offset_min: number | null;
+};
+
+function timeToMinutes(time: string): number {
+  const [h, m] = time.split(":").map(Number);
+  return h * 60 + m;
+}
+
+// Linear interpolation of the hourly heights at the given minute of day
+function interpolateHeight(hourly: HourlyHeight[], minutes: number): number | null {
+  if (hourly.length === 0) return null;
+  const heights = hourly.map((h) => h.cm);
+  const index = Math.min(Math.floor(minutes / 60), heights.length - 1);
+  const next = Math.min(index + 1, heights.length - 1);
+  const f = (minutes % 60) / 60;
+  const value = heights[index] * (1 - f) + heights[next] * f;
+  return isNaN(value) ? null : Math.round(value);
+}
+
+export function buildTideContext(day: TideDay, portId: PortId, minutes: number): TideContext {
+  const events = day.events;
+  const flow = estimateCurrentFlow(events, minutes);
+
+  let nearest: TideEvent | null = null;
+  let nearestOffset: number | null = null;
+  for (const event of events) {
+    const offset = minutes - timeToMinutes(event.time);
+    if (nearestOffset === null || Math.abs(offset) < Math.abs(nearestOffset)) {
+      nearest = event;
+      nearestOffset = offset;
+    }
+  }
+
+  return {
+    port_id: portId,
+    tide_phase:
+      flow.direction === "北流（上げ潮）" ? "上げ" : flow.direction === "南流（下げ潮）" ? "下げ" : null,
+    flow_direction: flow.direction,
+    flow_strength: flow.strength,
+    flow_speed_knots: Math.round(flow.speedKnots * 10) / 10,
+    tide_height_cm: interpolateHeight(day.hourly, minutes),
+    nearest_event_type: nearest?.type ?? null,
+    nearest_event_offset_min: nearestOffset,
+  };
+}
+
+// Fetch the day's tide from /api/tide and build the context for date (YYYY-MM-DD)
+// and time (HH:MM). Without network the harmonic prediction is used instead.
+export async function fetchTideContext(
+  portId: PortId,
+  date: string,
+  time: string
+): Promise<TideContext | null> {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || !/^\d{1,2}:\d{2}/.test(time)) return null;
+  const minutes = timeToMinutes(time.slice(0, 5));
+  try {
+    const { days } = await fetchTide({ port: portId, date });
+    return buildTideContext(days[0], portId, minutes);
+  } catch {
+    return buildTideContext(harmonicTideDay(getPort(portId), date), portId, minutes);
+  }
+}
+
+// Column values that clear a stored context, e.g. when an edit removes the time
+export const EMPTY_TIDE_CONTEXT: { [K in keyof TideContext]: null } = {
+  port_id: null,
+  tide_phase: null,
+  flow_direction: null,
+  flow_strength: null,
+  flow_speed_knots: null,
+  tide_height_cm: null,
+  nearest_event_type: null,
+  nearest_event_offset_min: null,
+};
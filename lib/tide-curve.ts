@@ -0,0 +1,109 @@
+import type { TideDay } from "./tide-api";
+
+// Smooth tide curve through the hourly heights and the high/low waters.
+// Monotone cubic (Fritsch–Carlson) interpolation never overshoots between
+// samples, so the highs and lows stay the extremes of the drawn curve.
+
+export type CurvePoint = {
+  minutes: number; // since midnight
+  cm: number;
+};
+
+export type TideCurve = {
+  points: CurvePoint[];
+  // Tangent (cm per minute) at each point
+  slopes: number[];
+};
+
+// Hourly samples this close to a high/low are dropped so the curve peaks at the event
+const EVENT_NEIGHBOURHOOD_MIN = 20;
+
+function toMinutes(time: string): number {
+  const [h, m] = time.split(":").map(Number);
+  return h * 60 + m;
+}
+
+export function curvePoints(day: TideDay): CurvePoint[] {
+  const events = day.events.map((e) => ({ minutes: toMinutes(e.time), cm: e.height }));
+  const hourly = day.hourly
+    .map((h) => ({ minutes: h.hour * 60, cm: h.cm }))
+    .filter((p) => events.every((e) => Math.abs(e.minutes - p.minutes) >= EVENT_NEIGHBOURHOOD_MIN));
+  return [...events, ...hourly].sort((a, b) => a.minutes - b.minutes);
+}
+
+export function monotoneCurve(points: CurvePoint[]): TideCurve {
+  const n = points.length;
+  if (n < 2) return { points, slopes: points.map(() => 0) };
+
+  const secants: number[] = [];
+  for (let i = 0; i < n - 1; i++) {
+    secants.push((points[i + 1].cm - points[i].cm) / (points[i + 1].minutes - points[i].minutes));
+  }
+
+  const slopes = points.map((_, i) => {
+    if (i === 0) return secants[0];
+    if (i === n - 1) return secants[n - 2];
+    const [a, b] = [secants[i - 1], secants[i]];
+    // Flat at local extremes, harmonic mean of the neighbouring secants otherwise
+    if (a * b <= 0) return 0;
+    return (2 * a * b) / (a + b);
+  });
+
+  // Keep each segment monotone
+  for (let i = 0; i < n - 1; i++) {
+    if (secants[i] === 0) {
+      slopes[i] = 0;
+      slopes[i + 1] = 0;
+      continue;
+    }
+    const alpha = slopes[i] / secants[i];
+    const beta = slopes[i + 1] / secants[i];
+    const sum = alpha * alpha + beta * beta;
+    if (sum > 9) {
+      const tau = 3 / Math.sqrt(sum);
+      slopes[i] = tau * alpha * secants[i];
+      slopes[i + 1] = tau * beta * secants[i];
+    }
+  }
+
+  return { points, slopes };
+}
+
+// Height on the curve; null outside the sampled range
+export function heightAt(curve: TideCurve, minutes: number): number | null {
+  const { points, slopes } = curve;
+  if (points.length === 0 || minutes < points[0].minutes || minutes > points[points.length - 1].minutes) {
+    return null;
+  }
+  let i = 0;
+  while (i < points.length - 2 && points[i + 1].minutes < minutes) i++;
+  const p0 = points[i];
+  const p1 = points[i + 1] ?? p0;
+  const h = p1.minutes - p0.minutes;
+  if (h === 0) return p0.cm;
+  const t = (minutes - p0.minutes) / h;
+  const t2 = t * t;
+  const t3 = t2 * t;
+  return (
+    (2 * t3 - 3 * t2 + 1) * p0.cm +
+    (t3 - 2 * t2 + t) * h * slopes[i] +
+    (-2 * t3 + 3 * t2) * p1.cm +
+    (t3 - t2) * h * slopes[i + 1]
+  );
+}
+
+// SVG path of the curve as cubic Bézier segments, through the given scales
+export function curvePath(curve: TideCurve, x: (minutes: number) => number, y: (cm: number) => number): string {
+  const { points, slopes } = curve;
+  if (points.length === 0) return "";
+  let d = `M${x(points[0].minutes).toFixed(1)},${y(points[0].cm).toFixed(1)}`;
+  for (let i = 0; i < points.length - 1; i++) {
+    const p0 = points[i];
+    const p1 = points[i + 1];
+    const third = (p1.minutes - p0.minutes) / 3;
+    const c1 = [x(p0.minutes + third), y(p0.cm + slopes[i] * third)];
+    const c2 = [x(p1.minutes - third), y(p1.cm - slopes[i + 1] * third)];
+    d += `C${c1.map((v) => v.toFixed(1)).join(",")} ${c2.map((v) => v.toFixed(1)).join(",")} ${x(p1.minutes).toFixed(1)},${y(p1.cm).toFixed(1)}`;
+  }
+  return d;
+}
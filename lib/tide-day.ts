@@ -0,0 +1,170 @@
+import { minutesToTime, TideEvent } from "./tide-utils";
+import type { HourlyHeight, TideDay, TideError, TidePort } from "./tide-api";
+import { predictTideDay } from "./tide-harmonics";
+import { moonInfoForDate } from "./moon";
+import { sunTimesForDate } from "./sun";
+import type { Port } from "./ports";
+
+// Builds the normalized TideDay from either source. Pure, so the client can
+// fall back to the harmonic prediction without going through the route.
+
+export class TideUpstreamError extends Error {
+  constructor(readonly details: string[]) {
+    super("tide736.net の応答形式が想定と異なります");
+    this.name = "TideUpstreamError";
+  }
+}
+
+export function tidePort(port: Port): TidePort {
+  return { id: port.id, name: port.name, area: port.area, lat: port.lat, lng: port.lng };
+}
+
+function buildDay(
+  date: string,
+  source: TideDay["source"],
+  events: TideEvent[],
+  hourly: HourlyHeight[],
+  sun: TideDay["sun"],
+  fallback: TideError | null
+): TideDay {
+  const { tideName, ...moon } = moonInfoForDate(date);
+  return {
+    date,
+    source,
+    fallback,
+    events: [...events].sort((a, b) => a.time.localeCompare(b.time)),
+    hourly,
+    sun,
+    moon,
+    tideName,
+  };
+}
+
+export function harmonicTideDay(port: Port, date: string, fallback: TideError | null = null): TideDay {
+  const [yr, mn, dy] = date.split("-").map(Number);
+  const { events, hourly } = predictTideDay(port.harmonics, yr, mn, dy);
+  const { rise, set } = sunTimesForDate(date, port.lat, port.lng);
+  const sun = {
+    rise: rise === null ? null : minutesToTime(rise),
+    set: set === null ? null : minutesToTime(set),
+  };
+  return buildDay(date, "harmonic", events, hourly, sun, fallback);
+}
+
+// --- tide736.net payload validation ---
+//
+// get_tide.php (rg=day) answers with
+//   { status, message, tide: { port, chart: { "YYYY-MM-DD": {
+//       sun: { rise, set, ... }, moon: { age, title },
+//       flood: [{ time, cm }], edd: [{ time, cm }], tide: [{ time, cm }] } } } }
+// where flood/edd are high/low waters and tide is the height series.
+
+type Issues = string[];
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function readNumber(value: unknown, path: string, issues: Issues): number | null {
+  const n = typeof value === "number" ? value : typeof value === "string" ? Number(value) : NaN;
+  if (!Number.isFinite(n)) {
+    issues.push(`${path}: not a number`);
+    return null;
+  }
+  return n;
+}
+
+function readTime(value: unknown, path: string, issues: Issues): string | null {
+  if (typeof value !== "string" || !TIME_PATTERN.test(value)) {
+    issues.push(`${path}: expected HH:MM`);
+    return null;
+  }
+  return value;
+}
+
+function readPoints(value: unknown, path: string, issues: Issues): Array<{ time: string; cm: number }> {
+  if (!Array.isArray(value)) {
+    issues.push(`${path}: expected an array`);
+    return [];
+  }
+  const points: Array<{ time: string; cm: number }> = [];
+  value.forEach((item, i) => {
+    if (!isObject(item)) {
+      issues.push(`${path}[${i}]: expected an object`);
+      return;
+    }
+    // Days with only one high or low water pad the list with "--:--"
+    if (item.time === "--:--") return;
+    const time = readTime(item.time, `${path}[${i}].time`, issues);
+    const cm = readNumber(item.cm, `${path}[${i}].cm`, issues);
+    if (time !== null && cm !== null) points.push({ time, cm });
+  });
+  return points;
+}
+
+function toMinutes(time: string): number {
+  const [h, m] = time.split(":").map(Number);
+  return h * 60 + m;
+}
+
+// Hourly heights from the (typically 20-minute) series, interpolating between samples
+function hourlyFromSeries(series: Array<{ time: string; cm: number }>): HourlyHeight[] {
+  const points = series.map((p) => ({ minute: toMinutes(p.time), cm: p.cm })).sort((a, b) => a.minute - b.minute);
+  const hourly: HourlyHeight[] = [];
+  for (let hour = 0; hour < 24; hour++) {
+    const minute = hour * 60;
+    const after = points.findIndex((p) => p.minute >= minute);
+    let cm: number;
+    if (after === -1) cm = points[points.length - 1].cm;
+    else if (after === 0 || points[after].minute === minute) cm = points[after].cm;
+    else {
+      const a = points[after - 1];
+      const b = points[after];
+      cm = a.cm + ((b.cm - a.cm) * (minute - a.minute)) / (b.minute - a.minute);
+    }
+    hourly.push({ hour, cm: Math.round(cm) });
+  }
+  return hourly;
+}
+
+// Validate one day of tide736.net output; throws TideUpstreamError listing every problem found
+export function parseTide736Day(payload: unknown, date: string): TideDay {
+  const issues: Issues = [];
+  if (!isObject(payload)) throw new TideUpstreamError(["(root): expected an object"]);
+  if (payload.status === false || payload.status === 0) {
+    throw new TideUpstreamError([`status: ${String(payload.message ?? "upstream reported failure")}`]);
+  }
+  const chart = isObject(payload.tide) && isObject(payload.tide.chart) ? payload.tide.chart : null;
+  if (!chart) throw new TideUpstreamError(["tide.chart: missing"]);
+  const day = chart[date];
+  const base = `tide.chart.${date}`;
+  if (!isObject(day)) throw new TideUpstreamError([`${base}: missing`]);
+
+  const highs = readPoints(day.flood, `${base}.flood`, issues);
+  const lows = readPoints(day.edd, `${base}.edd`, issues);
+  const series = readPoints(day.tide, `${base}.tide`, issues);
+  if (series.length < 2) issues.push(`${base}.tide: fewer than 2 samples`);
+  if (highs.length + lows.length === 0) issues.push(`${base}: no high or low water`);
+
+  let sun: TideDay["sun"] = { rise: null, set: null };
+  if (day.sun !== undefined) {
+    if (isObject(day.sun)) {
+      sun = {
+        rise: day.sun.rise == null ? null : readTime(day.sun.rise, `${base}.sun.rise`, issues),
+        set: day.sun.set == null ? null : readTime(day.sun.set, `${base}.sun.set`, issues),
+      };
+    } else {
+      issues.push(`${base}.sun: expected an object`);
+    }
+  }
+
+  if (issues.length > 0) throw new TideUpstreamError(issues);
+
+  const events: TideEvent[] = [
+    ...highs.map((p) => ({ time: p.time, height: Math.round(p.cm), type: "high" as const })),
+    ...lows.map((p) => ({ time: p.time, height: Math.round(p.cm), type: "low" as const })),
+  ];
+  return buildDay(date, "tide736", events, hourlyFromSeries(series), sun, null);
+}
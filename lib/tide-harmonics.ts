@@ -0,0 +1,160 @@
+import type { TideEvent } from "./tide-utils";
+import type { HourlyHeight } from "./tide-api";
+
+// Offline tide prediction from harmonic constituents.
+// Used by /api/tide when tide736.net is unreachable (or when explicitly requested)
+// so the rest of the app can keep working without network access.
+
+export type ConstituentName =
+  | "M2" | "S2" | "N2" | "K2"
+  | "K1" | "O1" | "P1" | "Q1"
+  | "M4" | "MS4";
+
+export type Constituent = {
+  name: ConstituentName;
+  amplitude: number; // cm
+  phase: number; // Greenwich phase lag (degrees)
+};
+
+export type HarmonicConstants = {
+  meanLevel: number; // Z0 above chart datum (cm)
+  constituents: Constituent[];
+};
+
+export type HarmonicTideDay = {
+  events: TideEvent[];
+  hourly: HourlyHeight[];
+};
+
+// Doodson numbers on (τ, s, h, p, N', p1) plus a phase offset in quarter turns
+const DOODSON: Record<ConstituentName, { args: number[]; offset: number }> = {
+  M2: { args: [2, 0, 0, 0, 0, 0], offset: 0 },
+  S2: { args: [2, 2, -2, 0, 0, 0], offset: 0 },
+  N2: { args: [2, -1, 0, 1, 0, 0], offset: 0 },
+  K2: { args: [2, 2, 0, 0, 0, 0], offset: 0 },
+  K1: { args: [1, 1, 0, 0, 0, 0], offset: 1 },
+  O1: { args: [1, -1, 0, 0, 0, 0], offset: -1 },
+  P1: { args: [1, 1, -2, 0, 0, 0], offset: -1 },
+  Q1: { args: [1, -2, 0, 1, 0, 0], offset: -1 },
+  M4: { args: [4, 0, 0, 0, 0, 0], offset: 0 },
+  MS4: { args: [4, 2, -2, 0, 0, 0], offset: 0 },
+};
+
+const DEG = Math.PI / 180;
+const JST_OFFSET_MS = 9 * 60 * 60 * 1000;
+
+type Astro = {
+  tau: number;
+  s: number;
+  h: number;
+  p: number;
+  n: number;
+  p1: number;
+};
+
+// Mean astronomical longitudes (degrees) for the given instant
+function astronomicalArguments(time: Date): Astro {
+  const days = (time.getTime() - Date.UTC(2000, 0, 1, 12)) / 86400000;
+  const t = days / 36525;
+  const s = 218.3164 + 481267.8812 * t;
+  const h = 280.4661 + 36000.7698 * t;
+  const p = 83.3535 + 4069.0137 * t;
+  const n = 125.0445 - 1934.1363 * t;
+  const p1 = 282.9373 + 1.7195 * t;
+  const utHours =
+    time.getUTCHours() + time.getUTCMinutes() / 60 + time.getUTCSeconds() / 3600;
+  const tau = 15 * utHours + 180 + h - s;
+  return { tau, s, h, p, n, p1 };
+}
+
+// Nodal amplitude factor f and phase correction u (degrees)
+function nodalCorrection(name: ConstituentName, n: number): { f: number; u: number } {
+  const N = n * DEG;
+  const m2 = {
+    f: 1.0004 - 0.0373 * Math.cos(N) + 0.0002 * Math.cos(2 * N),
+    u: -2.14 * Math.sin(N),
+  };
+  switch (name) {
+    case "M2":
+    case "N2":
+      return m2;
+    case "K2":
+      return {
+        f: 1.0241 + 0.2863 * Math.cos(N) + 0.0083 * Math.cos(2 * N) - 0.0015 * Math.cos(3 * N),
+        u: -17.74 * Math.sin(N) + 0.68 * Math.sin(2 * N) - 0.04 * Math.sin(3 * N),
+      };
+    case "K1":
+      return {
+        f: 1.006 + 0.115 * Math.cos(N) - 0.0088 * Math.cos(2 * N) + 0.0006 * Math.cos(3 * N),
+        u: -8.86 * Math.sin(N) + 0.68 * Math.sin(2 * N) - 0.07 * Math.sin(3 * N),
+      };
+    case "O1":
+    case "Q1":
+      return {
+        f: 1.0089 + 0.1871 * Math.cos(N) - 0.0147 * Math.cos(2 * N) + 0.0014 * Math.cos(3 * N),
+        u: 10.8 * Math.sin(N) - 1.34 * Math.sin(2 * N) + 0.19 * Math.sin(3 * N),
+      };
+    case "M4":
+      return { f: m2.f * m2.f, u: 2 * m2.u };
+    case "MS4":
+      return m2;
+    default:
+      return { f: 1, u: 0 };
+  }
+}
+
+export function predictHeight(constants: HarmonicConstants, time: Date): number {
+  const a = astronomicalArguments(time);
+  const vars = [a.tau, a.s, a.h, a.p, -a.n, a.p1];
+  let height = constants.meanLevel;
+  for (const c of constants.constituents) {
+    const { args, offset } = DOODSON[c.name];
+    let v = offset * 90;
+    for (let i = 0; i < args.length; i++) v += args[i] * vars[i];
+    const { f, u } = nodalCorrection(c.name, a.n);
+    height += f * c.amplitude * Math.cos((v + u - c.phase) * DEG);
+  }
+  return height;
+}
+
+function minutesToTime(minutes: number): string {
+  const h = Math.floor(minutes / 60);
+  const m = minutes % 60;
+  return `${String(h).padStart(2, "0")}:${String(m).padStart(2, "0")}`;
+}
+
+// Predict one JST calendar day: hourly heights plus high/low events found
+// by scanning minute-resolution heights for local extrema.
+export function predictTideDay(
+  constants: HarmonicConstants,
+  yr: number,
+  mn: number,
+  dy: number
+): HarmonicTideDay {
+  const startMs = Date.UTC(yr, mn - 1, dy) - JST_OFFSET_MS;
+  const heightAt = (minute: number) =>
+    predictHeight(constants, new Date(startMs + minute * 60000));
+
+  // Minutes -1..1440 so extrema at the day boundaries can be detected
+  const samples: number[] = [];
+  for (let m = -1; m <= 1440; m++) samples.push(heightAt(m));
+
+  const events: TideEvent[] = [];
+  for (let m = 0; m < 1440; m++) {
+    const prev = samples[m];
+    const cur = samples[m + 1];
+    const next = samples[m + 2];
+    if (cur > prev && cur >= next) {
+      events.push({ time: minutesToTime(m), height: Math.round(cur), type: "high" });
+    } else if (cur < prev && cur <= next) {
+      events.push({ time: minutesToTime(m), height: Math.round(cur), type: "low" });
+    }
+  }
+
+  const hourly: HourlyHeight[] = [];
+  for (let hour = 0; hour < 24; hour++) {
+    hourly.push({ hour, cm: Math.round(samples[hour * 60 + 1]) });
+  }
+
+  return { events, hourly };
+}
@@ -0,0 +1,105 @@
+import { fetchTide, TideDay } from "./tide-api";
+import type { PortId } from "./ports";
+import { runTransaction, TIDE_DAYS_STORE } from "./local-db";
+
+// Tide days kept on the device so the flow view works without a connection.
+// Every tide736.net day the app loads is stored, and the coming OFFLINE_DAYS
+// days of the selected port are fetched ahead at most every few hours.
+// Harmonic days are not stored: the app can compute those itself.
+
+export type OfflineTideDay = {
+  key: string; // "port:date"
+  portId: PortId;
+  date: string; // YYYY-MM-DD
+  day: TideDay;
+  savedAt: number;
+};
+
+export type OfflinePrefetch = {
+  savedAt: number;
+  through: string; // last stored date, YYYY-MM-DD
+};
+
+export const OFFLINE_DAYS = 14;
+
+const PREFETCH_INTERVAL_MS = 6 * 60 * 60 * 1000;
+const PREFETCH_KEY = "akashi-tide:offline-prefetch";
+
+
+function addDays(date: string, offset: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + offset);
+  return d.toISOString().split("T")[0];
+}
+
+export function isOfflineStoreAvailable(): boolean {
+  return typeof indexedDB !== "undefined";
+}
+
+export async function saveOfflineDays(portId: PortId, days: TideDay[]): Promise<void> {
+  const stored = days.filter((day) => day.source === "tide736");
+  if (stored.length === 0) return;
+  const savedAt = Date.now();
+  await runTransaction(TIDE_DAYS_STORE, "readwrite", (store) => {
+    for (const day of stored) {
+      const entry: OfflineTideDay = { key: `${portId}:${day.date}`, portId, date: day.date, day, savedAt };
+      store.put(entry);
+    }
+  });
+}
+
+export async function loadOfflineDay(portId: PortId, date: string): Promise<OfflineTideDay | null> {
+  const entry = await runTransaction<OfflineTideDay | undefined>(TIDE_DAYS_STORE, "readonly", (store) =>
+    store.get(`${portId}:${date}`)
+  );
+  return entry ?? null;
+}
+
+// Drops stored days before the given date
+export async function pruneOfflineDays(before: string): Promise<void> {
+  await runTransaction(TIDE_DAYS_STORE, "readwrite", (store) => {
+    const request = store.openCursor();
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return;
+      if ((cursor.value as OfflineTideDay).date < before) cursor.delete();
+      cursor.continue();
+    };
+  });
+}
+
+function readPrefetches(): Partial<Record<PortId, OfflinePrefetch>> {
+  try {
+    return JSON.parse(localStorage.getItem(PREFETCH_KEY) ?? "{}");
+  } catch {
+    return {};
+  }
+}
+
+export function lastOfflinePrefetch(portId: PortId): OfflinePrefetch | null {
+  return readPrefetches()[portId] ?? null;
+}
+
+// Stores the OFFLINE_DAYS days from today unless that was done recently.
+// Returns the prefetch in effect (null when nothing could be stored, e.g.
+// tide736.net is down); throws TideApiError when the fetch fails.
+export async function prefetchOfflineDays(portId: PortId, today: string): Promise<OfflinePrefetch | null> {
+  const last = lastOfflinePrefetch(portId);
+  if (last && last.through >= addDays(today, OFFLINE_DAYS - 1) && Date.now() - last.savedAt < PREFETCH_INTERVAL_MS) {
+    return last;
+  }
+
+  // Week ranges: two requests cover 14 days
+  const stored: string[] = [];
+  for (let offset = 0; offset < OFFLINE_DAYS; offset += 7) {
+    const { days } = await fetchTide({ port: portId, date: addDays(today, offset), range: "week" });
+    await saveOfflineDays(portId, days);
+    stored.push(...days.filter((day) => day.source === "tide736").map((day) => day.date));
+  }
+  await pruneOfflineDays(addDays(today, -1));
+  if (stored.length === 0) return last;
+
+  const prefetch: OfflinePrefetch = { savedAt: Date.now(), through: stored.sort()[stored.length - 1] };
+  localStorage.setItem(PREFETCH_KEY, JSON.stringify({ ...readPrefetches(), [portId]: prefetch }));
+  return prefetch;
+}
@@ -0,0 +1,34 @@
+import type { TideDay } from "./tide-api";
+import type { TideEvent } from "./tide-utils";
+
+// Tide times are JST wall-clock strings; these place them on absolute instants
+// for the calendar feed and the flow alerts.
+
+const JST_OFFSET_MS = 9 * 60 * 60 * 1000;
+
+// JST wall-clock minutes past midnight of `date` as a UTC instant (may run into the next day)
+export function jstInstant(date: string, minutes: number): Date {
+  const [y, m, d] = date.split("-").map(Number);
+  return new Date(Date.UTC(y, m - 1, d, -9, Math.round(minutes)));
+}
+
+export function jstTime(date: Date): string {
+  return new Date(date.getTime() + JST_OFFSET_MS).toISOString().slice(11, 16);
+}
+
+export function jstDateKey(date: Date): string {
+  return new Date(date.getTime() + JST_OFFSET_MS).toISOString().split("T")[0];
+}
+
+export type TimelineEvent = TideEvent & { date: string; at: Date };
+
+// High/low events of consecutive days on one continuous timeline, so that
+// flow between the last event of a day and the first of the next is covered
+export function tideTimeline(days: TideDay[]): TimelineEvent[] {
+  return days.flatMap((day) =>
+    day.events.map((e) => {
+      const [h, m] = e.time.split(":").map(Number);
+      return { ...e, date: day.date, at: jstInstant(day.date, h * 60 + m) };
+    })
+  );
+}
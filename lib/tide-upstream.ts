@@ -0,0 +1,137 @@
+import type { Port } from "./ports";
+import type { TideDay, TideError, TideSourceParam } from "./tide-api";
+import { harmonicTideDay, parseTide736Day, TideUpstreamError } from "./tide-day";
+import { CachedTideDay, getTideCache, isFresh } from "./tide-cache";
+import { createRateLimiter } from "./rate-limit";
+
+// Server-side day loading for /api/tide and the prefetch job:
+// persistent cache first, then tide736.net, then stale cache or the harmonic prediction.
+
+// A month request on a cold cache would otherwise open ~30 connections at once
+const MAX_CONCURRENT_UPSTREAM = 4;
+
+let activeUpstream = 0;
+const waitingUpstream: Array<() => void> = [];
+
+async function withUpstreamSlot<T>(task: () => Promise<T>): Promise<T> {
+  if (activeUpstream >= MAX_CONCURRENT_UPSTREAM) {
+    await new Promise<void>((resolve) => waitingUpstream.push(resolve));
+  } else {
+    activeUpstream++;
+  }
+  try {
+    return await task();
+  } finally {
+    // Hand the slot straight to the next waiter, or release it
+    const next = waitingUpstream.shift();
+    if (next) next();
+    else activeUpstream--;
+  }
+}
+
+export function isTideError(value: TideDay | TideError): value is TideError {
+  return "code" in value;
+}
+
+// One day from tide736.net, validated; returns the problem instead of throwing
+async function fetchUpstreamDay(port: Port, date: string): Promise<TideDay | TideError> {
+  const [yr, mn, dy] = date.split("-");
+  const params = new URLSearchParams({ pc: port.pc, hc: port.hc, yr, mn, dy, rg: "day" });
+
+  let payload: unknown;
+  try {
+    const res = await withUpstreamSlot(() =>
+      fetch(`https://api.tide736.net/get_tide.php?${params.toString()}`, { next: { revalidate: 3600 } })
+    );
+    if (!res.ok) {
+      return { code: "upstream_unavailable", message: `tide736.net が ${res.status} を返しました` };
+    }
+    payload = await res.json();
+  } catch (error) {
+    return { code: "upstream_unavailable", message: `tide736.net に接続できません: ${(error as Error).message}` };
+  }
+
+  try {
+    return parseTide736Day(payload, date);
+  } catch (error) {
+    if (error instanceof TideUpstreamError) {
+      return { code: "upstream_invalid", message: error.message, details: error.details };
+    }
+    throw error;
+  }
+}
+
+// Cache problems are logged and treated as a miss; the cache must never take the API down
+export async function readCachedDay(port: Port, date: string): Promise<CachedTideDay | null> {
+  const cache = getTideCache();
+  if (!cache) return null;
+  try {
+    return await cache.get(port.id, date);
+  } catch (error) {
+    console.error("Tide cache read failed:", port.id, date, error);
+    return null;
+  }
+}
+
+// Fetch from tide736.net and store the validated day
+export async function refreshDay(port: Port, date: string): Promise<TideDay | TideError> {
+  const day = await fetchUpstreamDay(port, date);
+  if (isTideError(day)) return day;
+  const cache = getTideCache();
+  if (cache) {
+    try {
+      await cache.set(port.id, date, { day, fetchedAt: new Date().toISOString() });
+    } catch (error) {
+      console.error("Tide cache write failed:", port.id, date, error);
+    }
+  }
+  return day;
+}
+
+// Returns an error instead of the upstream call when the client is over its budget
+export type UpstreamGate = () => TideError | null;
+
+// Per-client budgets shared by the tide routes: whole requests, and upstream fetches
+// on top. Cache hits are free, but a client paging through uncached months is slowed down.
+export const requestLimiter = createRateLimiter({ capacity: 60, refillPerMinute: 60 });
+const upstreamLimiter = createRateLimiter({ capacity: 62, refillPerMinute: 20 });
+
+// Gate charging the client's upstream budget; retryAfter() is the longest wait it handed out
+export function upstreamGate(client: string): { gate: UpstreamGate; retryAfter: () => number } {
+  let longest = 0;
+  const gate = (): TideError | null => {
+    const wait = upstreamLimiter.take(client);
+    if (wait === 0) return null;
+    longest = Math.max(longest, wait);
+    return { code: "rate_limited", message: `tide736.net への問い合わせが多すぎます。${wait}秒後に再試行してください` };
+  };
+  return { gate, retryAfter: () => longest };
+}
+
+// auto falls back to stale cache, then the harmonic prediction, recording why;
+// tide736 serves stale cache but otherwise passes the error on
+export async function loadDay(
+  port: Port,
+  date: string,
+  source: TideSourceParam,
+  gate: UpstreamGate
+): Promise<TideDay | TideError> {
+  if (source === "local") return harmonicTideDay(port, date);
+
+  const cached = await readCachedDay(port, date);
+  if (cached && isFresh(cached, date)) return cached.day;
+
+  const upstream = gate() ?? (await refreshDay(port, date));
+  if (!isTideError(upstream)) return upstream;
+
+  if (cached) {
+    console.error("Tide API problem, serving cached day:", upstream.code, upstream.details ?? upstream.message);
+    return {
+      ...cached.day,
+      fallback: { ...upstream, message: `${upstream.message}（${cached.fetchedAt} に取得したキャッシュを返しています）` },
+    };
+  }
+  if (source === "tide736") return upstream;
+  console.error("Tide API problem, using harmonic prediction:", upstream.code, upstream.details ?? upstream.message);
+  return harmonicTideDay(port, date, upstream);
+}
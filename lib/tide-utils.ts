@@ -7,113 +7,187 @@ export type TideEvent = {
 export type CurrentFlow = {
   direction: "南流（下げ潮）" | "北流（上げ潮）" | "転流";
   strength: "強" | "中" | "弱";
+  speedKnots: number;
   description: string;
 };
 
-export function parseTideEvents(data: Record<string, unknown>): TideEvent[] {
-  const events: TideEvent[] = [];
-
-  // tide736.net returns high/low tide arrays
-  const high = data.high as Array<{ time: string; cm: string }> | undefined;
-  const low = data.low as Array<{ time: string; cm: string }> | undefined;
-
-  if (high) {
-    for (const h of high) {
-      if (h.time && h.time !== "--:--") {
-        events.push({
-          time: h.time,
-          height: parseInt(h.cm, 10),
-          type: "high",
-        });
-      }
-    }
-  }
+export type FlowTurn = {
+  time: string;
+  type: "slack" | "max";
+  // Direction of the flow that starts (slack) or peaks (max) at this time
+  direction: "南流（下げ潮）" | "北流（上げ潮）";
+  speedKnots: number;
+};
 
-  if (low) {
-    for (const l of low) {
-      if (l.time && l.time !== "--:--") {
-        events.push({
-          time: l.time,
-          height: parseInt(l.cm, 10),
-          type: "low",
-        });
-      }
-    }
-  }
+// Akashi Strait runs at roughly 7 kn at spring tides. The speed model scales
+// that maximum by the tidal range relative to a typical spring range.
+export const MAX_SPRING_SPEED_KNOTS = 7;
+export const SPRING_RANGE_CM = 150;
+
+// Cap on the modelled peak speed. The linear scaling was calibrated on normal
+// spring ranges; storm surge or bad upstream heights would otherwise push it
+// well past anything the strait runs at.
+const MAX_MODEL_SPEED_KNOTS = 8;
 
-  events.sort((a, b) => a.time.localeCompare(b.time));
-  return events;
+// Peak speed (knots) for a half cycle with the given tidal range, capped at MAX_MODEL_SPEED_KNOTS
+export function peakSpeedForRange(rangeCm: number): number {
+  return Math.min(MAX_MODEL_SPEED_KNOTS, (MAX_SPRING_SPEED_KNOTS * Math.abs(rangeCm)) / SPRING_RANGE_CM);
 }
 
-export function estimateCurrentFlow(
-  events: TideEvent[],
-  currentHour: number
-): CurrentFlow {
-  if (events.length === 0) {
-    return {
-      direction: "転流",
-      strength: "弱",
-      description: "データなし",
-    };
-  }
+// Lower bound (knots) of each strength band
+export const STRENGTH_THRESHOLDS = { 強: 3.5, 中: 1.5 } as const;
 
-  // Find the surrounding events
-  const currentTimeStr = `${String(currentHour).padStart(2, "0")}:00`;
+export function strengthForSpeed(speedKnots: number): CurrentFlow["strength"] {
+  if (speedKnots >= STRENGTH_THRESHOLDS.強) return "強";
+  if (speedKnots >= STRENGTH_THRESHOLDS.中) return "中";
+  return "弱";
+}
+
+// 転流 (slack water) is the 弱 band around each high and low: the water is
+// still creeping one way, but for fishing and for the analytics it counts as
+// the turn. estimateCurrentFlow itself only reports "転流" without events.
+export function isSlackFlow(direction: string | null, strength: string | null): boolean {
+  return direction === "転流" || strength === "弱";
+}
+
+type TideInterval = {
+  prevEvent: TideEvent;
+  nextEvent: TideEvent;
+  // 0 at prevEvent, 1 at nextEvent
+  progress: number;
+};
+
+// The high/low waters on either side of a time of day
+function surroundingEvents(events: TideEvent[], currentMinutes: number): TideInterval | null {
   let prevEvent: TideEvent | null = null;
   let nextEvent: TideEvent | null = null;
 
   for (const event of events) {
-    if (event.time <= currentTimeStr) {
+    const eventMinutes = timeToMinutes(event.time);
+    if (eventMinutes <= currentMinutes) {
       prevEvent = event;
     }
-    if (event.time > currentTimeStr && !nextEvent) {
+    if (eventMinutes > currentMinutes && !nextEvent) {
       nextEvent = event;
     }
   }
 
+  // Before the first / after the last event of the day, approximate the
+  // neighbouring day's event with today's event of the opposite type, shifted
+  // by 24h so the interval still spans the current time.
+  let prevShift = 0;
+  let nextShift = 0;
   if (!prevEvent && nextEvent) {
-    prevEvent = { ...events[events.length - 1], type: events[events.length - 1].type === "high" ? "low" : "high" };
+    const type = nextEvent.type === "high" ? "low" : "high";
+    prevEvent = [...events].reverse().find((e) => e.type === type) ?? { ...nextEvent, type };
+    prevShift = -1440;
   }
   if (prevEvent && !nextEvent) {
-    nextEvent = { ...events[0], type: events[0].type === "high" ? "low" : "high" };
+    const type = prevEvent.type === "high" ? "low" : "high";
+    nextEvent = events.find((e) => e.type === type) ?? { ...prevEvent, type };
+    nextShift = 1440;
   }
 
-  if (!prevEvent || !nextEvent) {
-    return { direction: "転流", strength: "弱", description: "推定不可" };
-  }
+  if (!prevEvent || !nextEvent) return null;
 
-  // Near transition points (within 30 min), flow is weak/transitional
-  const prevMinutes = timeToMinutes(prevEvent.time);
-  const nextMinutes = timeToMinutes(nextEvent.time);
-  const currentMinutes = currentHour * 60;
+  const prevMinutes = timeToMinutes(prevEvent.time) + prevShift;
+  const nextMinutes = timeToMinutes(nextEvent.time) + nextShift;
   const totalInterval = nextMinutes - prevMinutes;
   const elapsed = currentMinutes - prevMinutes;
   const progress = totalInterval > 0 ? elapsed / totalInterval : 0.5;
+  return { prevEvent, nextEvent, progress };
+}
+
+// Stage of the rising (上げ) or falling (下げ) tide in tenths (潮の「分」):
+// 0 at the slack it started from, 10 at the next one
+export function tideStage(events: TideEvent[], minutes: number): { rising: boolean; tenths: number } | null {
+  const interval = surroundingEvents(events, minutes);
+  if (!interval) return null;
+  const tenths = Math.round(Math.min(Math.max(interval.progress, 0), 1) * 10);
+  return { rising: interval.prevEvent.type === "low", tenths };
+}
+
+// currentMinutes: minutes since local midnight (0–1439)
+export function estimateCurrentFlow(
+  events: TideEvent[],
+  currentMinutes: number
+): CurrentFlow {
+  if (events.length === 0) {
+    return {
+      direction: "転流",
+      strength: "弱",
+      speedKnots: 0,
+      description: "データなし",
+    };
+  }
+
+  const interval = surroundingEvents(events, currentMinutes);
+  if (!interval) {
+    return { direction: "転流", strength: "弱", speedKnots: 0, description: "推定不可" };
+  }
+  const { prevEvent, nextEvent, progress } = interval;
 
   // Determine direction: after high tide = 南流 (southward/ebb), after low tide = 北流 (northward/flood)
   const direction: CurrentFlow["direction"] =
     prevEvent.type === "high" ? "南流（下げ潮）" : "北流（上げ潮）";
 
-  // Estimate strength based on progress through the cycle
-  // Strongest at mid-cycle, weakest near transitions
-  let strength: CurrentFlow["strength"];
-  if (progress < 0.15 || progress > 0.85) {
-    strength = "弱";
-  } else if (progress < 0.35 || progress > 0.65) {
-    strength = "中";
-  } else {
-    strength = "強";
-  }
-
   const heightDiff = Math.abs(
     (prevEvent.height || 0) - (nextEvent.height || 0)
   );
+
+  // Sinusoidal half cycle: slack at high/low, peak speed at mid-cycle
+  const clamped = Math.min(Math.max(progress, 0), 1);
+  const speedKnots = peakSpeedForRange(heightDiff) * Math.sin(Math.PI * clamped);
+  const strength = strengthForSpeed(speedKnots);
+
   const description = `${prevEvent.type === "high" ? "満潮" : "干潮"}(${prevEvent.time}) → ${nextEvent.type === "high" ? "満潮" : "干潮"}(${nextEvent.time}) 潮位差: ${heightDiff}cm`;
 
-  return { direction, strength, description };
+  return { direction, strength, speedKnots, description };
 }
 
 function timeToMinutes(time: string): number {
   const [h, m] = time.split(":").map(Number);
   return h * 60 + m;
 }
+
+export function minutesToTime(minutes: number): string {
+  const m = ((Math.round(minutes) % 1440) + 1440) % 1440;
+  return `${String(Math.floor(m / 60)).padStart(2, "0")}:${String(m % 60).padStart(2, "0")}`;
+}
+
+// Slack-water (転流) and maximum-flow (最強) times for the day. Slack is taken
+// at each high/low event and the maximum at the midpoint between events.
+export function listFlowTurns(events: TideEvent[]): FlowTurn[] {
+  const turns: FlowTurn[] = [];
+  for (let i = 0; i < events.length; i++) {
+    const event = events[i];
+    const direction = event.type === "high" ? "南流（下げ潮）" : "北流（上げ潮）";
+    turns.push({ time: event.time, type: "slack", direction, speedKnots: 0 });
+
+    const next = events[i + 1];
+    if (!next) continue;
+    const mid = (timeToMinutes(event.time) + timeToMinutes(next.time)) / 2;
+    turns.push({
+      time: minutesToTime(mid),
+      type: "max",
+      direction,
+      speedKnots: peakSpeedForRange(event.height - next.height),
+    });
+  }
+  return turns;
+}
+
+// Peak flow for the day, judged from the largest range between
+// consecutive high/low events (bigger swing = faster current in the strait)
+export function estimatePeakFlow(events: TideEvent[]): {
+  strength: CurrentFlow["strength"];
+  speedKnots: number;
+  range: number;
+} {
+  let range = 0;
+  for (let i = 1; i < events.length; i++) {
+    range = Math.max(range, Math.abs(events[i].height - events[i - 1].height));
+  }
+  const speedKnots = peakSpeedForRange(range);
+  return { strength: strengthForSpeed(speedKnots), speedKnots, range };
+}
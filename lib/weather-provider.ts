@@ -0,0 +1,106 @@
+import { promises as fs } from "fs";
+import path from "path";
+import type { Port } from "./ports";
+import { HourlyWind, isHourlyWind } from "./weather";
+
+// Hourly wind for a port and date. Server-only. Selected with WEATHER_PROVIDER:
+//   mock  synthetic but stable wind per port and date (default in development)
+//   file  JSON files under WEATHER_DIR (default .weather): <port>/<date>.json
+//         holding { "hourly": HourlyWind[] }
+//   off   no weather (default in production, so made-up wind never reaches anglers)
+// A forecast service plugs in by implementing WeatherProvider.
+
+export interface WeatherProvider {
+  name: string;
+  // null when the provider has no data for the date
+  hourlyWind(port: Port, date: string): Promise<HourlyWind[] | null>;
+}
+
+export class WeatherProviderError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "WeatherProviderError";
+  }
+}
+
+// Deterministic PRNG so the mock answers the same wind on every request
+function mulberry32(seed: number): () => number {
+  let a = seed;
+  return () => {
+    a = (a + 0x6d2b79f5) | 0;
+    let t = Math.imul(a ^ (a >>> 15), 1 | a);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function hashString(value: string): number {
+  let hash = 2166136261;
+  for (let i = 0; i < value.length; i++) {
+    hash = Math.imul(hash ^ value.charCodeAt(i), 16777619);
+  }
+  return hash >>> 0;
+}
+
+// Prevailing directions in the strait: seasonal west/northwest, east, and southwest sea breeze
+const MOCK_DIRECTIONS = [270, 300, 90, 60, 225, 200];
+
+function mockProvider(): WeatherProvider {
+  return {
+    name: "mock",
+    async hourlyWind(port, date) {
+      const random = mulberry32(hashString(`${port.id}:${date}`));
+      const baseDirection = MOCK_DIRECTIONS[Math.floor(random() * MOCK_DIRECTIONS.length)];
+      const baseSpeed = 2 + random() * 7;
+      const drift = (random() - 0.5) * 60; // degrees over the day
+      return Array.from({ length: 24 }, (_, hour) => {
+        // Stronger in the afternoon
+        const diurnal = 1.5 * Math.sin((Math.PI * (hour - 8)) / 12);
+        const speedMs = Math.max(0, baseSpeed + diurnal + (random() - 0.5) * 1.5);
+        return {
+          hour,
+          speedMs: Math.round(speedMs * 10) / 10,
+          gustMs: Math.round(speedMs * (1.4 + random() * 0.3) * 10) / 10,
+          directionDeg: Math.round((baseDirection + (drift * hour) / 23 + (random() - 0.5) * 20 + 360) % 360),
+        };
+      });
+    },
+  };
+}
+
+function fileProvider(dir: string): WeatherProvider {
+  return {
+    name: "file",
+    async hourlyWind(port, date) {
+      let text: string;
+      try {
+        text = await fs.readFile(path.join(dir, port.id, `${date}.json`), "utf8");
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+        throw error;
+      }
+      const parsed = JSON.parse(text) as { hourly?: unknown };
+      if (!Array.isArray(parsed.hourly) || !parsed.hourly.every(isHourlyWind)) {
+        throw new WeatherProviderError(`${port.id}/${date}.json: hourly must be an array of { hour, speedMs, gustMs, directionDeg }`);
+      }
+      return [...parsed.hourly].sort((a, b) => a.hour - b.hour);
+    },
+  };
+}
+
+let _provider: WeatherProvider | null | undefined;
+
+export function getWeatherProvider(): WeatherProvider | null {
+  if (_provider !== undefined) return _provider;
+  const mode = process.env.WEATHER_PROVIDER ?? (process.env.NODE_ENV === "production" ? "off" : "mock");
+
+  if (mode === "mock") {
+    _provider = mockProvider();
+  } else if (mode === "file") {
+    _provider = fileProvider(process.env.WEATHER_DIR ?? path.join(process.cwd(), ".weather"));
+  } else {
+    if (mode !== "off") console.error(`Unknown WEATHER_PROVIDER: ${mode}`);
+    _provider = null;
+  }
+  return _provider;
+}
@@ -0,0 +1,89 @@
+import type { PortId } from "./ports";
+
+// Response schema of GET /api/weather, shared by the route and its clients.
+
+export const WEATHER_API_VERSION = 1;
+
+export type HourlyWind = {
+  hour: number; // 0–23, JST
+  speedMs: number; // mean wind speed, m/s
+  gustMs: number | null;
+  directionDeg: number; // direction the wind blows from, degrees clockwise from north
+};
+
+export type WeatherResponse = {
+  version: typeof WEATHER_API_VERSION;
+  port: PortId;
+  date: string; // YYYY-MM-DD (JST)
+  provider: string;
+  hourly: HourlyWind[]; // hours with data, ascending
+};
+
+export type WeatherErrorCode =
+  | "missing_parameter"
+  | "invalid_parameter"
+  | "unknown_port"
+  | "rate_limited"
+  | "not_configured"
+  | "not_found"
+  | "provider_error";
+
+export type WeatherError = {
+  code: WeatherErrorCode;
+  message: string;
+};
+
+export type WeatherErrorResponse = {
+  version: typeof WEATHER_API_VERSION;
+  error: WeatherError;
+};
+
+export class WeatherApiError extends Error {
+  constructor(
+    readonly code: WeatherErrorCode | "network_error",
+    message: string,
+    readonly status: number | null = null
+  ) {
+    super(message);
+    this.name = "WeatherApiError";
+  }
+}
+
+const COMPASS = ["北", "北北東", "北東", "東北東", "東", "東南東", "南東", "南南東", "南", "南南西", "南西", "西南西", "西", "西北西", "北西", "北北西"];
+
+// 16-point Japanese compass name, e.g. 270 → 西
+export function compassName(directionDeg: number): string {
+  return COMPASS[Math.round((((directionDeg % 360) + 360) % 360) / 22.5) % 16];
+}
+
+export function isHourlyWind(value: unknown): value is HourlyWind {
+  if (typeof value !== "object" || value === null) return false;
+  const w = value as Record<string, unknown>;
+  const finite = (v: unknown) => typeof v === "number" && Number.isFinite(v);
+  return (
+    Number.isInteger(w.hour) &&
+    (w.hour as number) >= 0 &&
+    (w.hour as number) <= 23 &&
+    finite(w.speedMs) &&
+    (w.speedMs as number) >= 0 &&
+    (w.gustMs === null || finite(w.gustMs)) &&
+    finite(w.directionDeg)
+  );
+}
+
+// Client for /api/weather. date is YYYY-MM-DD; throws WeatherApiError.
+export async function fetchWeather(options: { port: PortId; date: string }): Promise<WeatherResponse> {
+  const params = new URLSearchParams({ port: options.port, date: options.date });
+  let res: Response;
+  try {
+    res = await fetch(`/api/weather?${params.toString()}`);
+  } catch (e) {
+    throw new WeatherApiError("network_error", (e as Error).message ?? "network error");
+  }
+  const body = (await res.json().catch(() => null)) as WeatherResponse | WeatherErrorResponse | null;
+  if (!res.ok || !body || "error" in body) {
+    const error = body && "error" in body ? body.error : null;
+    throw new WeatherApiError(error?.code ?? "provider_error", error?.message ?? `status ${res.status}`, res.status);
+  }
+  return body;
+}
@@ -0,0 +1,92 @@
+import type { HourlyWind } from "./weather";
+import { CurrentFlow, estimateCurrentFlow, TideEvent } from "./tide-utils";
+
+// Wind against tide (風と潮がぶつかる状態). The strait runs WSW–ENE: 北流 sets
+// towards the west, 南流 towards the east, so a west wind against 北流 or an
+// east wind against 南流 piles up steep, short chop. An hour is warned when
+// the wind component blowing against the current reaches the threshold while
+// the current runs 中 or 強.
+
+export type WindTideLevel = "danger" | "caution";
+
+export type WindTideHour = {
+  hour: number;
+  wind: HourlyWind;
+  flow: CurrentFlow;
+  // Wind speed component against the current, m/s (0 when not opposing)
+  opposingMs: number;
+  level: WindTideLevel | null;
+};
+
+export type WindTideWarning = {
+  startHour: number;
+  endHour: number; // inclusive
+  level: WindTideLevel;
+  direction: Exclude<CurrentFlow["direction"], "転流">;
+  maxOpposingMs: number;
+};
+
+// Direction each flow sets towards, degrees clockwise from north
+const FLOW_SET_DEG: Record<Exclude<CurrentFlow["direction"], "転流">, number> = {
+  "北流（上げ潮）": 250,
+  "南流（下げ潮）": 70,
+};
+
+// Wind within this angle of head-on counts as opposing
+const MAX_OPPOSING_ANGLE_DEG = 60;
+
+export const WIND_THRESHOLD_OPTIONS = [5, 7, 10] as const;
+export const DEFAULT_WIND_THRESHOLD_MS = 7;
+
+function angleBetween(a: number, b: number): number {
+  const d = Math.abs((((a - b) % 360) + 360) % 360);
+  return d > 180 ? 360 - d : d;
+}
+
+// Opposing when the wind comes from where the current is heading
+export function opposingComponent(wind: HourlyWind, direction: CurrentFlow["direction"]): number {
+  if (direction === "転流") return 0;
+  const angle = angleBetween(wind.directionDeg, FLOW_SET_DEG[direction]);
+  if (angle > MAX_OPPOSING_ANGLE_DEG) return 0;
+  return wind.speedMs * Math.cos((angle * Math.PI) / 180);
+}
+
+export function windTideHours(wind: HourlyWind[], events: TideEvent[], thresholdMs: number): WindTideHour[] {
+  return wind.map((w) => {
+    // Flow at the middle of the hour
+    const flow = estimateCurrentFlow(events, w.hour * 60 + 30);
+    const opposingMs = opposingComponent(w, flow.direction);
+    let level: WindTideLevel | null = null;
+    if (opposingMs >= thresholdMs && flow.strength !== "弱") {
+      level = flow.strength === "強" ? "danger" : "caution";
+    }
+    return { hour: w.hour, wind: w, flow, opposingMs, level };
+  });
+}
+
+// Consecutive warned hours with the same flow direction, merged
+export function windTideWarnings(hours: WindTideHour[]): WindTideWarning[] {
+  const warnings: WindTideWarning[] = [];
+  let current: WindTideWarning | null = null;
+  for (const h of hours) {
+    if (!h.level || h.flow.direction === "転流") {
+      current = null;
+      continue;
+    }
+    if (current && current.direction === h.flow.direction && current.endHour === h.hour - 1) {
+      current.endHour = h.hour;
+      if (h.level === "danger") current.level = "danger";
+      current.maxOpposingMs = Math.max(current.maxOpposingMs, h.opposingMs);
+    } else {
+      current = {
+        startHour: h.hour,
+        endHour: h.hour,
+        level: h.level,
+        direction: h.flow.direction,
+        maxOpposingMs: h.opposingMs,
+      };
+      warnings.push(current);
+    }
+  }
+  return warnings;
+}
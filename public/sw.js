@@ -0,0 +1,183 @@
+// Service worker: keeps the app usable offline and shows flow alerts sent via
+// Web Push (or handed over by the local push stand-in).
+//
+// Offline caching (skipped when registered with ?offline=0, i.e. in development):
+//   navigations     network first (4 s timeout), then the cached page or app shell
+//   /_next/static/  cache first; the build's chunks are cached from the page HTML
+//   other files     stale-while-revalidate (manifest, icons)
+//   map tiles       cache first, only tiles the user has viewed, capped at MAX_TILES
+//                   (the OSM tile policy forbids bulk prefetching for offline use)
+//   /api/           never cached here: the app stores tide days in IndexedDB itself
+
+const OFFLINE_ENABLED = new URL(self.location.href).searchParams.get("offline") !== "0";
+
+// Bump to drop the shell and static caches of older versions
+const VERSION = "v1";
+const SHELL_CACHE = `shell-${VERSION}`;
+const STATIC_CACHE = `static-${VERSION}`;
+const TILE_CACHE = "tiles-v1";
+const CACHES = [SHELL_CACHE, STATIC_CACHE, TILE_CACHE];
+
+const SHELL_URLS = ["/", "/manifest.webmanifest", "/icon.svg"];
+const NAVIGATION_TIMEOUT_MS = 4000;
+
+const TILE_HOST = "tile.openstreetmap.org";
+const MAX_TILES = 600;
+
+// Chunks and styles referenced by a page, so everything the shell needs is
+// cached even when it was loaded before this worker took control
+async function cacheAssets(html) {
+  const cache = await caches.open(STATIC_CACHE);
+  const paths = new Set(html.match(/\/_next\/static\/[^"'\s)\\]+/g) || []);
+  await Promise.all(
+    [...paths].map(async (path) => {
+      if (await cache.match(path)) return;
+      const response = await fetch(path).catch(() => null);
+      if (response && response.ok) await cache.put(path, response);
+    })
+  );
+}
+
+async function precacheShell() {
+  const cache = await caches.open(SHELL_CACHE);
+  await cache.addAll(SHELL_URLS);
+  const page = await cache.match("/");
+  if (page) await cacheAssets(await page.text());
+}
+
+// Tiles are fetched with CORS (the server allows it) so the cache holds real
+// responses rather than opaque ones, which count heavily against the quota
+async function fetchTile(url) {
+  const response = await fetch(url, { mode: "cors" }).catch(() => null);
+  return response && response.ok ? response : null;
+}
+
+async function trimTiles() {
+  const cache = await caches.open(TILE_CACHE);
+  const keys = await cache.keys();
+  // Oldest entries come first
+  await Promise.all(keys.slice(0, Math.max(0, keys.length - MAX_TILES)).map((key) => cache.delete(key)));
+}
+
+self.addEventListener("install", (event) => {
+  self.skipWaiting();
+  if (!OFFLINE_ENABLED) return;
+  event.waitUntil(precacheShell().catch((error) => console.error("Precache failed:", error)));
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) => Promise.all(keys.filter((key) => !OFFLINE_ENABLED || !CACHES.includes(key)).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+function withTimeout(promise, ms) {
+  return Promise.race([promise, new Promise((_, reject) => setTimeout(() => reject(new Error("timeout")), ms))]);
+}
+
+async function handleNavigation(event) {
+  const cache = await caches.open(SHELL_CACHE);
+  try {
+    const response = await withTimeout(fetch(event.request), NAVIGATION_TIMEOUT_MS);
+    if (response.ok) {
+      const copy = response.clone();
+      event.waitUntil(
+        copy.text().then((html) =>
+          Promise.all([
+            cache.put(event.request, new Response(html, { headers: copy.headers })),
+            cacheAssets(html),
+          ])
+        )
+      );
+    }
+    return response;
+  } catch (error) {
+    const cached = (await cache.match(event.request, { ignoreSearch: true })) || (await cache.match("/"));
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+async function handleStatic(request) {
+  const cache = await caches.open(STATIC_CACHE);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) await cache.put(request, response.clone());
+  return response;
+}
+
+async function handleShellFile(event) {
+  const cache = await caches.open(SHELL_CACHE);
+  const cached = await cache.match(event.request);
+  const network = fetch(event.request).then(async (response) => {
+    if (response.ok) await cache.put(event.request, response.clone());
+    return response;
+  });
+  if (cached) {
+    event.waitUntil(network.catch(() => undefined));
+    return cached;
+  }
+  return network;
+}
+
+async function handleTile(event) {
+  const cache = await caches.open(TILE_CACHE);
+  const cached = await cache.match(event.request.url);
+  if (cached) return cached;
+  const response = await fetchTile(event.request.url);
+  if (!response) return fetch(event.request);
+  await cache.put(event.request.url, response.clone());
+  event.waitUntil(trimTiles());
+  return response;
+}
+
+self.addEventListener("fetch", (event) => {
+  if (!OFFLINE_ENABLED || event.request.method !== "GET") return;
+  const url = new URL(event.request.url);
+
+  if (url.hostname === TILE_HOST) {
+    event.respondWith(handleTile(event));
+    return;
+  }
+  if (url.origin !== self.location.origin || url.pathname.startsWith("/api/")) return;
+
+  if (event.request.mode === "navigate") {
+    event.respondWith(handleNavigation(event));
+  } else if (url.pathname.startsWith("/_next/static/")) {
+    event.respondWith(handleStatic(event.request));
+  } else if (SHELL_URLS.includes(url.pathname)) {
+    event.respondWith(handleShellFile(event));
+  }
+});
+
+// Payload: { title, body, tag, url }
+self.addEventListener("push", (event) => {
+  let data = {};
+  try {
+    data = event.data ? event.data.json() : {};
+  } catch {
+    data = { body: event.data ? event.data.text() : "" };
+  }
+  event.waitUntil(
+    self.registration.showNotification(data.title || "明石潮流ナビ", {
+      body: data.body || "",
+      tag: data.tag,
+      data: { url: data.url || "/" },
+    })
+  );
+});
+
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close();
+  const url = new URL(event.notification.data?.url || "/", self.location.origin).href;
+  event.waitUntil(
+    self.clients.matchAll({ type: "window", includeUncontrolled: true }).then((windows) => {
+      const open = windows.find((w) => w.url.startsWith(self.location.origin));
+      return open ? open.focus() : self.clients.openWindow(url);
+    })
+  );
+});
@@ -0,0 +1,342 @@
+// Minimal in-memory stand-in for Supabase's PostgREST endpoint, for developing
+// and testing the offline record queue without a real Supabase project.
+//
+//   npm run mock:supabase
+//   NEXT_PUBLIC_SUPABASE_URL=http://localhost:54321 NEXT_PUBLIC_SUPABASE_ANON_KEY=mock npm run dev
+//
+// Supports the subset of PostgREST the app uses: select with filters, order,
+// limit/offset, insert/upsert (on_conflict + Prefer resolution), update and
+// delete by filter. Data lives in memory and is lost on restart.
+//
+// A tiny GoTrue stand-in handles password sign-up/sign-in (auto-confirmed,
+// tokens are unsigned). fishing_records and fishing_spots get the same access
+// rules as the README's RLS policies: own rows, plus shared rows for members
+// listed in team_members, are readable; only own rows are writable;
+// push_subscriptions are own rows only and team_members is service role only.
+// Requests with the service role key bypass these rules. Foreign keys are not enforced.
+//
+// Environment:
+//   PORT             listen port (default 54321)
+//   MOCK_FAIL_RATE   0–1, fraction of write requests answered with 503
+//   MOCK_LATENCY_MS  artificial delay per request
+//   MOCK_SERVICE_ROLE_KEY  key treated as service_role (default mock-service-role)
+
+import { createServer } from "node:http";
+import { randomUUID } from "node:crypto";
+
+const PORT = Number(process.env.PORT ?? 54321);
+const FAIL_RATE = Number(process.env.MOCK_FAIL_RATE ?? 0);
+const LATENCY_MS = Number(process.env.MOCK_LATENCY_MS ?? 0);
+const SERVICE_ROLE_KEY = process.env.MOCK_SERVICE_ROLE_KEY ?? "mock-service-role";
+
+/** @type {Map<string, Record<string, unknown>[]>} */
+const tables = new Map();
+
+function table(name) {
+  if (!tables.has(name)) tables.set(name, []);
+  return tables.get(name);
+}
+
+/** @type {Map<string, { id: string; email: string; password: string }>} */
+const users = new Map();
+
+function base64url(value) {
+  return Buffer.from(JSON.stringify(value)).toString("base64url");
+}
+
+function sessionFor(user) {
+  const expiresIn = 3600;
+  const exp = Math.floor(Date.now() / 1000) + expiresIn;
+  const claims = { sub: user.id, email: user.email, role: "authenticated", aud: "authenticated", exp };
+  const profile = {
+    id: user.id,
+    aud: "authenticated",
+    role: "authenticated",
+    email: user.email,
+    email_confirmed_at: new Date().toISOString(),
+    app_metadata: { provider: "email" },
+    user_metadata: {},
+    created_at: new Date().toISOString(),
+  };
+  return {
+    access_token: `${base64url({ alg: "none", typ: "JWT" })}.${base64url(claims)}.mock`,
+    refresh_token: user.id,
+    token_type: "bearer",
+    expires_in: expiresIn,
+    expires_at: exp,
+    user: profile,
+  };
+}
+
+// User id from the Authorization header, or null for anon requests
+function requestUserId(req) {
+  const token = (req.headers["authorization"] ?? "").replace(/^Bearer /, "");
+  try {
+    const claims = JSON.parse(Buffer.from(token.split(".")[1] ?? "", "base64url").toString());
+    return typeof claims.sub === "string" ? claims.sub : null;
+  } catch {
+    return null;
+  }
+}
+
+const CORS_HEADERS = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET,POST,PATCH,DELETE,OPTIONS",
+  "Access-Control-Allow-Headers": "*",
+  "Access-Control-Expose-Headers": "Content-Range",
+};
+
+function send(res, status, body, headers = {}) {
+  res.writeHead(status, { ...CORS_HEADERS, "Content-Type": "application/json", ...headers });
+  res.end(body === undefined ? "" : JSON.stringify(body));
+}
+
+function likeToRegExp(pattern, flags) {
+  const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, "\\$&").replace(/[%*]/g, ".*").replace(/_/g, ".");
+  return new RegExp(`^${escaped}$`, flags);
+}
+
+// "gte.2026-01-01" -> predicate on a row value; "not.is.null" negates
+function parseFilter(expr) {
+  const dot = expr.indexOf(".");
+  const op = expr.slice(0, dot);
+  const raw = expr.slice(dot + 1);
+  if (op === "not") {
+    const inner = parseFilter(raw);
+    return inner && ((v) => !inner(v));
+  }
+  const cmp = (v) => (v === null || v === undefined ? null : String(v));
+  const num = (a, b) => (isNaN(Number(a)) || isNaN(Number(b)) ? a.localeCompare(b) : Number(a) - Number(b));
+  switch (op) {
+    case "eq": return (v) => cmp(v) === raw;
+    case "neq": return (v) => cmp(v) !== raw;
+    case "gt": return (v) => cmp(v) !== null && num(cmp(v), raw) > 0;
+    case "gte": return (v) => cmp(v) !== null && num(cmp(v), raw) >= 0;
+    case "lt": return (v) => cmp(v) !== null && num(cmp(v), raw) < 0;
+    case "lte": return (v) => cmp(v) !== null && num(cmp(v), raw) <= 0;
+    case "like": return (v) => cmp(v) !== null && likeToRegExp(raw, "").test(cmp(v));
+    case "ilike": return (v) => cmp(v) !== null && likeToRegExp(raw, "i").test(cmp(v));
+    case "is": return (v) => (raw === "null" ? v === null || v === undefined : String(v) === raw);
+    default: return null;
+  }
+}
+
+const RESERVED = new Set(["select", "order", "limit", "offset", "on_conflict", "columns"]);
+
+function applyFilters(rows, params) {
+  let result = rows;
+  for (const [key, value] of params) {
+    if (RESERVED.has(key)) continue;
+    const predicate = parseFilter(value);
+    if (!predicate) continue;
+    result = result.filter((row) => predicate(row[key]));
+  }
+  return result;
+}
+
+function applyOrder(rows, order) {
+  if (!order) return rows;
+  const keys = order.split(",").map((part) => {
+    const [column, ...mods] = part.split(".");
+    return { column, desc: mods.includes("desc"), nullsFirst: mods.includes("nullsfirst") };
+  });
+  return [...rows].sort((a, b) => {
+    for (const { column, desc, nullsFirst } of keys) {
+      const av = a[column] ?? null;
+      const bv = b[column] ?? null;
+      if (av === bv) continue;
+      if (av === null) return nullsFirst ? -1 : 1;
+      if (bv === null) return nullsFirst ? 1 : -1;
+      const c = String(av).localeCompare(String(bv), undefined, { numeric: true });
+      if (c !== 0) return desc ? -c : c;
+    }
+    return 0;
+  });
+}
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    let data = "";
+    req.on("data", (chunk) => (data += chunk));
+    req.on("end", () => {
+      try {
+        resolve(data ? JSON.parse(data) : null);
+      } catch (e) {
+        reject(e);
+      }
+    });
+  });
+}
+
+async function handleAuth(req, res, url) {
+  const route = url.pathname.slice("/auth/v1/".length);
+  if (req.method === "POST" && route === "signup") {
+    const { email, password } = (await readBody(req)) ?? {};
+    if (!email || !password) return send(res, 400, { error_code: "validation_failed", msg: "email and password required" });
+    if (users.has(email)) return send(res, 422, { error_code: "user_already_exists", msg: "User already registered" });
+    const user = { id: randomUUID(), email, password };
+    users.set(email, user);
+    return send(res, 200, sessionFor(user));
+  }
+  if (req.method === "POST" && route === "token") {
+    const body = (await readBody(req)) ?? {};
+    const user =
+      url.searchParams.get("grant_type") === "refresh_token"
+        ? [...users.values()].find((u) => u.id === body.refresh_token)
+        : users.get(body.email);
+    if (!user || (body.password !== undefined && user.password !== body.password)) {
+      return send(res, 400, { error_code: "invalid_credentials", msg: "Invalid login credentials" });
+    }
+    return send(res, 200, sessionFor(user));
+  }
+  if (req.method === "GET" && route === "user") {
+    const user = [...users.values()].find((u) => u.id === requestUserId(req));
+    return user ? send(res, 200, sessionFor(user).user) : send(res, 401, { msg: "Not signed in" });
+  }
+  if (req.method === "POST" && route === "logout") return send(res, 204);
+  if (req.method === "POST" && route === "otp") {
+    return send(res, 400, { error_code: "otp_disabled", msg: "Magic links are not supported by the mock; use a password" });
+  }
+  return send(res, 404, { msg: "Not found" });
+}
+
+// Tables with per-user RLS in the README; shareable ones are also readable by the team
+const OWNED_TABLES = new Set(["fishing_records", "fishing_spots", "push_subscriptions"]);
+const SHAREABLE_TABLES = new Set(["fishing_records", "fishing_spots"]);
+
+// RLS enabled without policies: only the service role reads or writes them
+const PRIVATE_TABLES = new Set(["team_members"]);
+
+// Like service_role, bypasses RLS
+const SERVICE_ROLE = Symbol("service_role");
+
+function isTeamMember(userId) {
+  return userId !== null && table("team_members").some((m) => m.user_id === userId);
+}
+
+function isServiceRole(req) {
+  return (req.headers["authorization"] ?? "") === `Bearer ${SERVICE_ROLE_KEY}`;
+}
+
+// Mirror of the README's policies for those tables
+function visibleRows(name, rows, userId) {
+  if (userId === SERVICE_ROLE) return rows;
+  if (PRIVATE_TABLES.has(name)) return [];
+  if (!OWNED_TABLES.has(name)) return rows;
+  const member = isTeamMember(userId);
+  return rows.filter((r) => r.user_id === userId || (member && SHAREABLE_TABLES.has(name) && r.shared === true));
+}
+
+function writableRows(name, rows, userId) {
+  if (userId === SERVICE_ROLE) return rows;
+  if (PRIVATE_TABLES.has(name)) return [];
+  if (!OWNED_TABLES.has(name)) return rows;
+  return rows.filter((r) => userId !== null && r.user_id === userId);
+}
+
+const server = createServer(async (req, res) => {
+  if (LATENCY_MS > 0) await new Promise((r) => setTimeout(r, LATENCY_MS));
+  if (req.method === "OPTIONS") return send(res, 204);
+
+  const url = new URL(req.url ?? "/", `http://localhost:${PORT}`);
+  if (url.pathname.startsWith("/auth/v1/")) {
+    try {
+      return await handleAuth(req, res, url);
+    } catch (e) {
+      return send(res, 400, { msg: String(e) });
+    }
+  }
+
+  const match = url.pathname.match(/^\/rest\/v1\/([\w-]+)$/);
+  if (!match) return send(res, 404, { message: "Not found" });
+
+  const name = match[1];
+  const rows = table(name);
+  const userId = isServiceRole(req) ? SERVICE_ROLE : requestUserId(req);
+  const params = url.searchParams;
+  const prefer = req.headers["prefer"] ?? "";
+  const returnRepresentation = prefer.includes("return=representation");
+
+  if (req.method !== "GET" && Math.random() < FAIL_RATE) {
+    return send(res, 503, { message: "Simulated outage (MOCK_FAIL_RATE)" });
+  }
+
+  try {
+    if (req.method === "GET") {
+      let result = applyOrder(applyFilters(visibleRows(name, rows, userId), params), params.get("order"));
+      const offset = Number(params.get("offset") ?? 0);
+      const limit = params.has("limit") ? Number(params.get("limit")) : undefined;
+      result = result.slice(offset, limit === undefined ? undefined : offset + limit);
+      return send(res, 200, result);
+    }
+
+    if (req.method === "POST") {
+      const body = await readBody(req);
+      const incoming = Array.isArray(body) ? body : [body];
+      const conflictKey = params.get("on_conflict");
+      const ignore = prefer.includes("resolution=ignore-duplicates");
+      const merge = prefer.includes("resolution=merge-duplicates");
+      const written = [];
+      for (const item of incoming) {
+        const row = { id: randomUUID(), created_at: new Date().toISOString(), ...item };
+        if (PRIVATE_TABLES.has(name) && userId !== SERVICE_ROLE) {
+          return send(res, 403, {
+            code: "42501",
+            message: `new row violates row-level security policy for table "${name}"`,
+          });
+        }
+        if (OWNED_TABLES.has(name) && userId !== SERVICE_ROLE) {
+          row.user_id ??= userId;
+          if (SHAREABLE_TABLES.has(name)) row.shared ??= false;
+          if (userId === null || row.user_id !== userId) {
+            return send(res, 403, {
+              code: "42501",
+              message: `new row violates row-level security policy for table "${name}"`,
+            });
+          }
+        }
+        const keys = (conflictKey ?? "id").split(",");
+        const existing = rows.find((r) => keys.every((key) => r[key] === row[key]));
+        if (existing) {
+          if (ignore) continue;
+          if (merge) {
+            Object.assign(existing, item);
+            written.push(existing);
+            continue;
+          }
+          return send(res, 409, {
+            code: "23505",
+            message: `duplicate key value violates unique constraint "${name}_pkey"`,
+          });
+        }
+        rows.push(row);
+        written.push(row);
+      }
+      return send(res, 201, returnRepresentation ? written : undefined);
+    }
+
+    if (req.method === "PATCH") {
+      const body = await readBody(req);
+      const targets = applyFilters(writableRows(name, rows, userId), params);
+      for (const row of targets) Object.assign(row, body);
+      return send(res, returnRepresentation ? 200 : 204, returnRepresentation ? targets : undefined);
+    }
+
+    if (req.method === "DELETE") {
+      const targets = new Set(applyFilters(writableRows(name, rows, userId), params));
+      const kept = rows.filter((r) => !targets.has(r));
+      rows.length = 0;
+      rows.push(...kept);
+      return send(res, returnRepresentation ? 200 : 204, returnRepresentation ? [...targets] : undefined);
+    }
+
+    return send(res, 405, { message: "Method not allowed" });
+  } catch (e) {
+    return send(res, 400, { message: String(e) });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock PostgREST listening on http://localhost:${PORT}`);
+  if (FAIL_RATE > 0) console.log(`Failing ${FAIL_RATE * 100}% of writes`);
+});